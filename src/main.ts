@@ -1,19 +1,38 @@
 import {
     App,
+    Component,
     Editor,
     MarkdownView,
+    MarkdownRenderer,
     Modal,
     Notice,
     Plugin,
     PluginSettingTab,
     Setting,
+    DropdownComponent,
+    Vault,
+    ToggleComponent,
     Menu,
     EditorSuggest,
     EditorSuggestContext,
     EditorSuggestTriggerInfo,
+    FuzzyMatch,
+    FuzzySuggestModal,
+    SearchResult,
+    TAbstractFile,
     TFile,
-    normalizePath
+    TFolder,
+    debounce,
+    editorInfoField,
+    moment,
+    normalizePath,
+    parseYaml,
+    prepareFuzzySearch,
+    renderResults,
+    stringifyYaml
 } from 'obsidian';
+import { EditorSelection, Prec, StateEffect, StateField } from '@codemirror/state';
+import { EditorView, keymap } from '@codemirror/view';
 
 interface EditorPosition {
     line: number;
@@ -31,6 +50,15 @@ declare global {
 }
 
 declare module 'obsidian' {
+    interface Editor {
+        cm?: EditorView;
+    }
+
+    // Not part of the public API, so it may be missing
+    interface MenuItem {
+        setSubmenu?(): Menu;
+    }
+
     interface App {
         commands: {
             listCommands: () => ObsidianCommand[];
@@ -44,33 +72,689 @@ interface Template {
     name: string;
     content: string;
     useNameAsCommand: boolean;
+    aliases?: string[];
+    frontmatter?: Record<string, unknown>;
+    path?: string;
+    category?: string;
+    folder?: string;
+    filename?: string;
+    placement?: TemplatePlacementMode;
+    heading?: string;
+    // Set for files without the plugin's frontmatter; they are used as they are and never written to
+    unmanaged?: boolean;
+}
+
+type TemplatePlacementMode = 'selection' | 'cursor' | 'top' | 'bottom' | 'heading';
+
+interface TemplatePlacement {
+    mode: TemplatePlacementMode;
+    heading?: string;
+}
+
+interface NoteHeading {
+    line: number;
+    level: number;
+    text: string;
+}
+
+interface TemplateMatch extends FuzzyMatch<Template> {
+    field: 'name' | 'alias' | 'tag' | 'content' | 'none';
+    text: string;
+}
+
+interface FolderTemplateRule {
+    pattern: string;
+    template: string;
+}
+
+type ImportResolution = 'skip' | 'overwrite' | 'rename';
+
+interface TemplatePackEntry {
+    category?: string;
+    markdown: string;
+}
+
+interface ImportSummary {
+    added: number;
+    overwritten: TemplateChange[];
+    renamed: number;
+    skipped: number;
+    failed: string[];
+}
+
+interface MigrationResult {
+    source: string;
+    name: string;
+    saved: boolean;
+    issues: string[];
+}
+
+type FrontmatterMergeStrategy = 'keep' | 'overwrite' | 'append';
+
+type PeriodicNoteType = 'daily' | 'weekly' | 'monthly';
+
+interface PeriodicNoteSettings {
+    folder: string;
+    format: string;
+    template: string;
+}
+
+interface TemplateRevision {
+    savedAt: number;
+    markdown: string;
+}
+
+interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// A template as it was before a change, with its position in the list and its file content
+interface TemplateSnapshot {
+    template: Template;
+    index: number;
+    markdown: string;
+    usage?: TemplateUsage;
+    revisions?: TemplateRevision[];
+}
+
+interface TemplateChange {
+    before: TemplateSnapshot;
+    // The template that replaced it, or null if it was deleted
+    after: Template | null;
+}
+
+interface TemplateUsage {
+    count: number;
+    lastUsed: number;
+    lastNote: string;
+}
+
+interface TemplateVariable {
+    name: string;
+    defaultValue: string;
+    isList?: boolean;
+}
+
+type TemplateMoment = ReturnType<typeof moment>;
+
+interface TemplateDateValue {
+    date: TemplateMoment;
+    format: string;
+}
+
+type TemplateValue = string | TemplateDateValue;
+
+interface TemplateFilter {
+    name: string;
+    arg?: string;
+}
+
+interface TemplateCondition {
+    name: string;
+    negate: boolean;
+    operator?: '==' | '!=';
+    value?: string;
+}
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'output'; name: string; arg?: string; filters: TemplateFilter[]; line: number }
+    | { type: 'if'; condition: TemplateCondition; then: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+    | { type: 'each'; name: string; body: TemplateNode[]; line: number }
+    | { type: 'include'; reference: string; line: number };
+
+interface TemplateScope {
+    values: Record<string, string>;
+    context: TemplateContext;
+    item?: string;
+    index?: number;
+}
+
+interface TemplateContext {
+    file: TFile | null;
+    selection: string;
+    clipboard?: string;
+    title?: string;
+    date?: TemplateMoment;
+}
+
+interface TabStop {
+    index: number;
+    from: number;
+    to: number;
 }
 
 interface QuickTemplatesSettings {
     templates: Template[];
     useFileStorage: boolean;
     templatesFolder: string;
+    templateUsage: Record<string, TemplateUsage>;
+    templateHistory: Record<string, TemplateRevision[]>;
+    triggerPrefix: string;
+    ignoreTriggersInCode: boolean;
+    autoExpand: boolean;
+    frontmatterMergeStrategy: FrontmatterMergeStrategy;
+    folderTemplates: FolderTemplateRule[];
+    periodicNotes: Record<PeriodicNoteType, PeriodicNoteSettings>;
 }
 
 const DEFAULT_SETTINGS: QuickTemplatesSettings = {
     templates: [],
     useFileStorage: true,
-    templatesFolder: 'templates'
+    templatesFolder: 'templates',
+    templateUsage: {},
+    templateHistory: {},
+    triggerPrefix: '!!',
+    ignoreTriggersInCode: false,
+    autoExpand: false,
+    frontmatterMergeStrategy: 'keep',
+    folderTemplates: [],
+    periodicNotes: {
+        daily: { folder: '', format: 'YYYY-MM-DD', template: '' },
+        weekly: { folder: '', format: 'gggg-[W]ww', template: '' },
+        monthly: { folder: '', format: 'YYYY-MM', template: '' },
+    }
 }
 
+// Folder templates wait this long so notes that are created with content get it written first
+const FOLDER_TEMPLATE_DELAY = 300;
+// Notes modified longer ago than this were brought in by sync or a restore, not created here
+const FOLDER_TEMPLATE_MAX_AGE = 10000;
+
+const PLACEMENT_LABELS: Record<TemplatePlacementMode, string> = {
+    selection: 'At cursor, replacing the selection',
+    cursor: 'At cursor, keeping the selection',
+    top: 'Top of note, after properties',
+    bottom: 'End of note',
+    heading: 'Under heading',
+};
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+const TEMPLATE_PACK_TYPE = 'quick-templates-pack';
+const TEMPLATE_PACK_VERSION = 1;
+
+const PERIODIC_NOTE_TYPES: PeriodicNoteType[] = ['daily', 'weekly', 'monthly'];
+
+const PERIODIC_NOTE_PERIODS: Record<PeriodicNoteType, { unit: 'day' | 'week' | 'month'; current: string }> = {
+    daily: { unit: 'day', current: 'today\'s' },
+    weekly: { unit: 'week', current: 'this week\'s' },
+    monthly: { unit: 'month', current: 'this month\'s' },
+};
+
+const MAX_TEMPLATE_REVISIONS = 20;
+
+// How long the notice offering to undo a delete or bulk change stays open, in ms
+const UNDO_NOTICE_DURATION = 10000;
+
+const USAGE_HALF_LIFE_DAYS = 14;
+const CONTENT_SEARCH_LIMIT = 2000;
+
 interface ObsidianCommand {
     id: string;
     name: string;
 }
 
+const TEMPLATE_METADATA_KEYS = ['name', 'useNameAsCommand'];
+
+const FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n?---(?:\n|$)/;
+
+const BUILTIN_TOKENS = ['date', 'time', 'title', 'selection', 'clipboard'];
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_TIME_FORMAT = 'HH:mm';
+
+// A tag, or an escaped \{{ that stands for a literal {{
+const TEMPLATE_TAG_REGEX = /\\\{\{|\{\{([^{}]*)\}\}/g;
+
+const RAW_BLOCK_END = '{{/raw}}';
+
+const LITERAL_TAG_HINT = 'To insert {{ literally, write \\{{ or wrap the text in {{#raw}}…{{/raw}}';
+
+const CONDITION_REGEX = /^(!)?\s*([^\s=!]+)\s*(?:(==|!=)\s*(?:"([^"]*)"|'([^']*)'|(\S+)))?$/;
+
+const DURATION_REGEX = /^([+-]?\d+)\s*(y|M|w|d|h|m|s)$/;
+
+const LOOP_TOKENS = ['this', '@index'];
+
+class TemplateSyntaxError extends Error {
+    line: number;
+    source: string;
+
+    constructor(message: string, line: number, source: string) {
+        super(source ? `Template "${source}", line ${line}: ${message}` : `Template error on line ${line}: ${message}`);
+        this.name = 'TemplateSyntaxError';
+        this.line = line;
+        this.source = source;
+    }
+}
+
+function templateValueToText(value: TemplateValue): string {
+    return typeof value === 'string' ? value : value.date.format(value.format);
+}
+
+function templateValueToDate(value: TemplateValue): TemplateDateValue {
+    if (typeof value !== 'string') {
+        return value;
+    }
+
+    const date = moment(value.trim(), [moment.ISO_8601, DEFAULT_DATE_FORMAT], true);
+    if (!date.isValid()) {
+        throw new Error(`"${value}" is not a date`);
+    }
+    return { date, format: DEFAULT_DATE_FORMAT };
+}
+
+function shiftTemplateDate(value: TemplateValue, arg: string | undefined, direction: number): TemplateValue {
+    const match = (arg || '').trim().match(DURATION_REGEX);
+    if (!match) {
+        throw new Error(`invalid duration "${arg || ''}" (use for example 7d, 2w, 1M or 1y)`);
+    }
+
+    const { date, format } = templateValueToDate(value);
+    const unit = match[2] as 'y' | 'M' | 'w' | 'd' | 'h' | 'm' | 's';
+    return { date: date.clone().add(direction * parseInt(match[1], 10), unit), format };
+}
+
+const TEMPLATE_FILTERS: Record<string, (value: TemplateValue, arg?: string) => TemplateValue> = {
+    upper: value => templateValueToText(value).toUpperCase(),
+    lower: value => templateValueToText(value).toLowerCase(),
+    trim: value => templateValueToText(value).trim(),
+    capitalize: value => {
+        const text = templateValueToText(value);
+        return text.charAt(0).toUpperCase() + text.slice(1);
+    },
+    title: value => templateValueToText(value).replace(/(^|\s)(\S)/g, (match, space: string, char: string) => space + char.toUpperCase()),
+    slug: value => templateValueToText(value).toLowerCase().trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, ''),
+    default: (value, arg) => templateValueToText(value).trim() ? value : (arg || ''),
+    add: (value, arg) => shiftTemplateDate(value, arg, 1),
+    subtract: (value, arg) => shiftTemplateDate(value, arg, -1),
+    format: (value, arg) => ({ date: templateValueToDate(value).date, format: arg || DEFAULT_DATE_FORMAT }),
+    quote: value => templateValueToText(value).split('\n').map(line => line ? `> ${line}` : '>').join('\n'),
+};
+
+function countLines(text: string): number {
+    let count = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) === 10) count++;
+    }
+    return count;
+}
+
+// Line-based diff from `before` to `after`, using the longest common subsequence of lines
+function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i * width + j] = a[i] === b[j]
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (j < b.length && (i >= a.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+            lines.push({ type: 'added', text: b[j] });
+            j++;
+        } else {
+            lines.push({ type: 'removed', text: a[i] });
+            i++;
+        }
+    }
+
+    return lines;
+}
+
+function splitTagArgument(text: string): { name: string; arg?: string } {
+    const separator = text.indexOf(':');
+    if (separator < 0) {
+        return { name: text.trim() };
+    }
+    return { name: text.substring(0, separator).trim(), arg: text.substring(separator + 1).trim() };
+}
+
+function parseTemplate(content: string, source: string = ''): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const blocks: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; inElse: boolean }[] = [];
+
+    const current = (): TemplateNode[] => {
+        const block = blocks[blocks.length - 1];
+        if (!block) return root;
+        if (block.node.type === 'each') return block.node.body;
+        return block.inElse ? block.node.otherwise : block.node.then;
+    };
+
+    const regex = new RegExp(TEMPLATE_TAG_REGEX.source, 'g');
+    let line = 1;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(content)) !== null) {
+        const text = content.substring(lastIndex, match.index);
+        if (text) {
+            current().push({ type: 'text', value: text });
+        }
+        line += countLines(text);
+
+        if (match[1] === undefined) {
+            current().push({ type: 'text', value: '{{' });
+            lastIndex = match.index + match[0].length;
+            continue;
+        }
+
+        const tagLine = line;
+        const tag = match[1].trim();
+        const fail = (message: string) => new TemplateSyntaxError(message, tagLine, source);
+
+        line += countLines(match[0]);
+        lastIndex = match.index + match[0].length;
+
+        if (!tag) {
+            throw fail('empty tag {{}}');
+        }
+
+        if (tag.startsWith('#')) {
+            const [, keyword, rest] = tag.match(/^#(\S*)\s*([\s\S]*)$/) || [];
+            if (keyword === 'if') {
+                const condition = rest.trim().match(CONDITION_REGEX);
+                if (!condition) {
+                    throw fail(`invalid condition in {{${tag}}}; expected {{#if name}}, {{#if !name}} or {{#if name == "value"}}`);
+                }
+                const node: TemplateNode = {
+                    type: 'if',
+                    condition: {
+                        name: condition[2],
+                        negate: !!condition[1],
+                        operator: condition[3] as TemplateCondition['operator'],
+                        value: condition[4] ?? condition[5] ?? condition[6],
+                    },
+                    then: [],
+                    otherwise: [],
+                    line: tagLine,
+                };
+                current().push(node);
+                blocks.push({ node, inElse: false });
+            } else if (keyword === 'each') {
+                const name = rest.trim();
+                if (!name || /\s/.test(name)) {
+                    throw fail(`{{#each}} needs exactly one variable name, got {{${tag}}}`);
+                }
+                const node: TemplateNode = { type: 'each', name, body: [], line: tagLine };
+                current().push(node);
+                blocks.push({ node, inElse: false });
+            } else if (keyword === 'raw' && !rest.trim()) {
+                // Everything up to {{/raw}} is kept exactly as written, such as code using {{ }} itself
+                const end = content.indexOf(RAW_BLOCK_END, lastIndex);
+                if (end < 0) {
+                    throw fail(`{{#raw}} is never closed with ${RAW_BLOCK_END}`);
+                }
+
+                const raw = content.substring(lastIndex, end);
+                if (raw) {
+                    current().push({ type: 'text', value: raw });
+                }
+                line += countLines(raw);
+                lastIndex = end + RAW_BLOCK_END.length;
+                regex.lastIndex = lastIndex;
+            } else {
+                throw fail(`unknown block {{${tag}}}; only {{#if}}, {{#each}} and {{#raw}} are supported. ${LITERAL_TAG_HINT}`);
+            }
+        } else if (tag.startsWith('/')) {
+            const keyword = tag.substring(1).trim();
+            const block = blocks.pop();
+            if (!block) {
+                throw fail(`{{${tag}}} has no matching opening block`);
+            }
+            if (block.node.type !== keyword) {
+                throw fail(`expected {{/${block.node.type}}} to close the block opened on line ${block.node.line}, found {{${tag}}}`);
+            }
+        } else if (tag === 'else') {
+            const block = blocks[blocks.length - 1];
+            if (!block || block.node.type !== 'if' || block.inElse) {
+                throw fail('{{else}} is only allowed once inside {{#if}}');
+            }
+            block.inElse = true;
+        } else if (tag.startsWith('>')) {
+            const reference = tag.substring(1).trim();
+            if (!reference) {
+                throw fail('{{>}} needs the name of the template to include');
+            }
+            current().push({ type: 'include', reference, line: tagLine });
+        } else {
+            const [head, ...filterParts] = tag.split('|');
+            const { name, arg } = splitTagArgument(head);
+            if (!name) {
+                throw fail(`missing variable name in {{${tag}}}`);
+            }
+
+            const filters = filterParts.map(part => {
+                const filter = splitTagArgument(part);
+                if (!TEMPLATE_FILTERS[filter.name]) {
+                    throw fail(`unknown filter "${filter.name}"; available filters: ${Object.keys(TEMPLATE_FILTERS).join(', ')}. ${LITERAL_TAG_HINT}`);
+                }
+                return filter;
+            });
+
+            current().push({ type: 'output', name, arg, filters, line: tagLine });
+        }
+    }
+
+    const rest = content.substring(lastIndex);
+    if (rest) {
+        current().push({ type: 'text', value: rest });
+    }
+
+    const unclosed = blocks.pop();
+    if (unclosed) {
+        throw new TemplateSyntaxError(`{{#${unclosed.node.type}}} is never closed with {{/${unclosed.node.type}}}`, unclosed.node.line, source);
+    }
+
+    return root;
+}
+
+const TEMPLATER_TAG_REGEX = /<%([*_-]?)([\s\S]*?)[_-]?%>/g;
+
+const TEMPLATER_ARGUMENT_REGEX = /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(-?\d+(?:\.\d+)?))\s*(?:,|$)/y;
+
+// Arguments of a Templater call, as long as they are all string or number literals
+function parseTemplaterArguments(text: string): (string | number)[] | null {
+    const args: (string | number)[] = [];
+    let index = 0;
+
+    while (index < text.length && text.slice(index).trim()) {
+        TEMPLATER_ARGUMENT_REGEX.lastIndex = index;
+        const match = TEMPLATER_ARGUMENT_REGEX.exec(text);
+        if (!match || match[0].length === 0) {
+            return null;
+        }
+
+        args.push(match[3] !== undefined ? Number(match[3]) : (match[1] ?? match[2]).replace(/\\(.)/g, '$1'));
+        index = TEMPLATER_ARGUMENT_REGEX.lastIndex;
+    }
+
+    return args;
+}
+
+function convertTemplaterDate(format: unknown, offset: unknown): string | null {
+    if ((format !== undefined && typeof format !== 'string') || (typeof format === 'string' && /[{}|]/.test(format))) {
+        return null;
+    }
+    if (offset !== undefined && !(typeof offset === 'number' && Number.isInteger(offset))) {
+        return null;
+    }
+
+    const date = format && format !== DEFAULT_DATE_FORMAT ? `date:${format}` : 'date';
+    const shift = !offset ? '' : offset > 0 ? `|add:${offset}d` : `|subtract:${-offset}d`;
+    return `{{${date}${shift}}}`;
+}
+
+// This plugin's equivalent of a single Templater expression, or null when there is none
+function convertTemplaterExpression(expression: string): string | null {
+    const match = expression.trim().match(/^(tp\.[\w.]+)(?:\(([\s\S]*)\))?$/);
+    if (!match) {
+        return null;
+    }
+
+    const [, name, argumentText] = match;
+    if (argumentText === undefined) {
+        return name === 'tp.file.title' ? '{{title}}' : null;
+    }
+
+    const args = parseTemplaterArguments(argumentText);
+    if (!args) {
+        return null;
+    }
+
+    switch (name) {
+        case 'tp.date.now':
+            return args.length <= 2 ? convertTemplaterDate(args[0], args[1]) : null;
+        case 'tp.date.tomorrow':
+            return args.length <= 1 ? convertTemplaterDate(args[0], 1) : null;
+        case 'tp.date.yesterday':
+            return args.length <= 1 ? convertTemplaterDate(args[0], -1) : null;
+        case 'tp.file.cursor':
+            if (args.length === 0) {
+                return '$0';
+            }
+            return args.length === 1 && typeof args[0] === 'number' && Number.isInteger(args[0]) ? `$${args[0]}` : null;
+        case 'tp.file.selection':
+            return args.length === 0 ? '{{selection}}' : null;
+        case 'tp.system.clipboard':
+            return args.length === 0 ? '{{clipboard}}' : null;
+        case 'tp.system.prompt': {
+            const [prompt, defaultValue] = args;
+            const label = typeof prompt === 'string' ? prompt.replace(/[{}:|]/g, '').trim() : '';
+            if (!label || args.length > 2 || /[{}|]/.test(String(defaultValue ?? ''))) {
+                return null;
+            }
+            return defaultValue !== undefined && defaultValue !== '' ? `{{${label}:${defaultValue}}}` : `{{${label}}}`;
+        }
+        case 'tp.file.include': {
+            const [link] = args;
+            const reference = typeof link === 'string' ? link.replace(/^\[\[|\]\]$/g, '').split(/[|#]/)[0].trim() : '';
+            return reference && args.length === 1 ? `{{> ${reference}}}` : null;
+        }
+        default:
+            return null;
+    }
+}
+
+// Converts Templater tags to this plugin's syntax. Core Templates tags ({{date}}, {{time}}, {{title}}) already match it.
+// Tags without an equivalent are kept as written and reported with their line.
+function convertTemplaterSyntax(content: string): { content: string; issues: string[] } {
+    const issues: string[] = [];
+
+    // Text that this plugin would read as a tab stop or a tag is escaped before any are added; core Templates tags are kept
+    const escaped = content
+        .replace(/\r\n?/g, '\n')
+        .replace(TAB_STOP_START_REGEX, '\\$')
+        .replace(/\{\{(?!(?:date|time)(?::[^{}]*)?\}\}|title\}\})/g, '\\{{');
+
+    const converted = escaped.replace(TEMPLATER_TAG_REGEX, (tag: string, command: string, expression: string, offset: number) => {
+        const replacement = command === '*' ? null : convertTemplaterExpression(expression);
+        if (replacement !== null) {
+            return replacement;
+        }
+
+        const line = countLines(escaped.slice(0, offset)) + 1;
+        const original = tag.replace(/\\(?=\{\{|\$)/g, '');
+        const shown = original.length > 60 ? `${original.slice(0, 57)}...` : original;
+        const reason = command === '*' ? 'runs JavaScript' : 'has no equivalent';
+        issues.push(`Line ${line}: ${shown.replace(/\s+/g, ' ')} ${reason} and was kept as written`);
+        return tag;
+    });
+
+    return { content: converted, issues };
+}
+
+// $1, ${1} and ${1:default}; \$ keeps a dollar sign that would otherwise start a tab stop, as in \$100
+const TAB_STOP_REGEX = /\\\$(?=\d|\{\d+[:}])|\$(\d+)|\$\{(\d+)(?::([^{}]*))?\}/g;
+
+const TAB_STOP_START_REGEX = /\$(?=\d|\{\d+[:}])/g;
+
+const setTabStopsEffect = StateEffect.define<TabStop[]>();
+
+// The stop being edited comes first, followed by the ones Tab moves to
+const tabStopsField = StateField.define<TabStop[]>({
+    create: () => [],
+    update(stops, transaction) {
+        for (const effect of transaction.effects) {
+            if (effect.is(setTabStopsEffect)) {
+                return effect.value;
+            }
+        }
+
+        if (stops.length === 0) {
+            return stops;
+        }
+
+        const mapped = !transaction.docChanged ? stops : stops.map(stop => ({
+            index: stop.index,
+            from: transaction.changes.mapPos(stop.from, -1),
+            to: transaction.changes.mapPos(stop.to, 1),
+        }));
+
+        // Moving the cursor out of the current stop ends tab-stop mode, so Tab works normally again elsewhere
+        const [active] = mapped;
+        const { head } = transaction.newSelection.main;
+        if (transaction.selection && (head < active.from || head > active.to)) {
+            return [];
+        }
+
+        return mapped;
+    }
+});
+
+function jumpToNextTabStop(view: EditorView): boolean {
+    const stops = view.state.field(tabStopsField, false);
+    if (!stops || stops.length < 2) {
+        return clearTabStops(view);
+    }
+
+    const [, next, ...rest] = stops;
+    view.dispatch({
+        selection: EditorSelection.single(next.from, next.to),
+        effects: setTabStopsEffect.of([next, ...rest]),
+        scrollIntoView: true,
+    });
+    return true;
+}
+
+function clearTabStops(view: EditorView): boolean {
+    const stops = view.state.field(tabStopsField, false);
+    if (stops && stops.length > 0) {
+        view.dispatch({ effects: setTabStopsEffect.of([]) });
+    }
+    return false;
+}
+
+const tabStopKeymap = Prec.highest(keymap.of([
+    { key: 'Tab', run: jumpToNextTabStop },
+    { key: 'Escape', run: clearTabStops },
+]));
+
 export default class QuickTemplatesPlugin extends Plugin {
     settings: QuickTemplatesSettings;
 
+    refreshTemplateCommands = debounce(() => {
+        this.registerTemplateCommands();
+    }, 500, true);
+
     async onload() {
         await this.loadSettings();
 
-        this.clearAllTooltips();
-
         try {
             const templatesPath = normalizePath(this.settings.templatesFolder);
             const folder = this.app.vault.getAbstractFileByPath(templatesPath);
@@ -106,6 +790,56 @@ export default class QuickTemplatesPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'new-note-from-template',
+            name: 'New note from template',
+            callback: () => {
+                new NewNoteFromTemplateModal(this.app, this).open();
+            }
+        });
+
+        PERIODIC_NOTE_TYPES.forEach(type => {
+            this.addCommand({
+                id: `open-${type}-note`,
+                name: `Open ${PERIODIC_NOTE_PERIODS[type].current} ${type} note`,
+                callback: () => {
+                    this.openPeriodicNote(type);
+                }
+            });
+        });
+
+        this.addCommand({
+            id: 'open-periodic-note-for-date',
+            name: 'Open periodic note for date...',
+            callback: () => {
+                new PeriodicNoteDateModal(this.app, this).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'export-templates',
+            name: 'Export templates',
+            callback: () => {
+                new ExportTemplatesModal(this.app, this).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'import-templates',
+            name: 'Import templates',
+            callback: () => {
+                new ImportTemplatePackModal(this.app, this).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'migrate-templates',
+            name: 'Import templates from Templates or Templater folder',
+            callback: () => {
+                new MigrateTemplatesModal(this.app, this).open();
+            }
+        });
+
         this.addCommand({
             id: 'manage-templates',
             name: 'Manage templates',
@@ -116,10 +850,14 @@ export default class QuickTemplatesPlugin extends Plugin {
 
         this.app.workspace.onLayoutReady(() => {
             this.registerTemplateCommands();
+            this.registerTemplateFolderEvents();
+            this.registerFolderTemplateEvents();
         });
 
         this.registerEditorSuggest(new TemplateSuggest(this));
 
+        this.registerEditorExtension([tabStopsField, tabStopKeymap, this.createAutoExpandExtension()]);
+
         this.registerEvent(
             this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor) => {
                 menu.addItem((item) => {
@@ -139,19 +877,79 @@ export default class QuickTemplatesPlugin extends Plugin {
                                 new SaveTemplateModal(this.app, this, selection).open();
                             });
                     });
+
+                    const wrappers = this.searchTemplates('')
+                        .map(match => match.item)
+                        .filter(template => this.usesSelectionToken(template.content, this.getTemplateKey(template)));
+                    if (wrappers.length > 0) {
+                        const wrapSelection = (template: Template) => {
+                            this.insertTemplate(editor, template, undefined, undefined, { mode: 'selection' });
+                        };
+
+                        let submenu: Menu | null = null;
+                        menu.addItem((item) => {
+                            item.setTitle('Wrap selection with template')
+                                .setIcon('template-glyph');
+
+                            if (typeof item.setSubmenu === 'function') {
+                                submenu = item.setSubmenu();
+                            } else {
+                                item.setDisabled(true);
+                            }
+                        });
+
+                        // Without submenus, every template gets its own item below the heading
+                        wrappers.forEach(template => {
+                            (submenu || menu).addItem((subitem) => {
+                                subitem.setTitle(submenu ? this.getTemplateKey(template) : `Wrap with ${this.getTemplateKey(template)}`)
+                                    .onClick(() => wrapSelection(template));
+                            });
+                        });
+                    }
+                }
+            })
+        );
+
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu: Menu, file: TAbstractFile) => {
+                if (file instanceof TFile && file.extension === 'json') {
+                    menu.addItem((item) => {
+                        item.setTitle('Import templates from pack')
+                            .setIcon('download')
+                            .onClick(() => {
+                                this.importTemplatePack(file);
+                            });
+                    });
                 }
+
+                if (!(file instanceof TFolder)) {
+                    return;
+                }
+
+                menu.addItem((item) => {
+                    item.setTitle('New note from template')
+                        .setIcon('document')
+                        .onClick(() => {
+                            new NewNoteFromTemplateModal(this.app, this, file).open();
+                        });
+                });
             })
         );
 
         this.addSettingTab(new QuickTemplatesSettingTab(this.app, this));
     }
 
-    onunload() {
-        this.clearAllTooltips();
-    }
-
     async loadSettings() {
         this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        this.settings.templateUsage = Object.assign({}, this.settings.templateUsage);
+        this.settings.templateHistory = Object.assign({}, this.settings.templateHistory);
+        this.settings.folderTemplates = (this.settings.folderTemplates || []).map(rule => ({ ...rule }));
+
+        const periodicNotes = this.settings.periodicNotes;
+        this.settings.periodicNotes = { ...DEFAULT_SETTINGS.periodicNotes };
+        PERIODIC_NOTE_TYPES.forEach(type => {
+            this.settings.periodicNotes[type] = Object.assign({}, DEFAULT_SETTINGS.periodicNotes[type], periodicNotes?.[type]);
+        });
 
         this.settings.useFileStorage = true;
 
@@ -166,15 +964,7 @@ export default class QuickTemplatesPlugin extends Plugin {
     }
 
     async saveSettings() {
-        if (this.settings.templates.length > 0) {
-            await this.saveTemplatesToFiles();
-        }
-
-        const settingsWithoutTemplates = {
-            ...this.settings,
-            templates: []
-        };
-        await this.saveData(settingsWithoutTemplates);
+        await this.saveSettingsData();
 
         if (this.app.workspace.layoutReady) {
             this.registerTemplateCommands();
@@ -185,10 +975,20 @@ export default class QuickTemplatesPlugin extends Plugin {
         }
     }
 
+    async saveSettingsData() {
+        const settingsWithoutTemplates = {
+            ...this.settings,
+            templates: []
+        };
+        await this.saveData(settingsWithoutTemplates);
+    }
+
     registerTemplateCommands() {
         try {
+            // addCommand prefixes ids with the plugin id, so that is what the registered commands start with
+            const commandPrefix = `${this.manifest.id}:template-`;
             this.app.commands.listCommands()
-                .filter((cmd: ObsidianCommand) => cmd.id.startsWith('quick-templates:template-'))
+                .filter((cmd: ObsidianCommand) => cmd.id.startsWith(commandPrefix))
                 .forEach((cmd: ObsidianCommand) => {
                     this.app.commands.removeCommand(cmd.id);
                 });
@@ -196,13 +996,14 @@ export default class QuickTemplatesPlugin extends Plugin {
             this.settings.templates.forEach(template => {
                 if (!template) return;
 
-                const templateName = template.name;
+                if (!template.name) return;
 
-                if (!templateName) return;
+                // The category keeps templates with the same name in different categories apart
+                const templateKey = this.getTemplateKey(template);
 
-                const commandId = `quick-templates:template-${this.createSafeId(templateName)}`;
+                const commandId = `template-${this.createSafeId(templateKey)}`;
 
-                const commandName = `Template: ${template.name}`;
+                const commandName = `Template: ${templateKey}`;
 
                 try {
                     this.addCommand({
@@ -211,13 +1012,15 @@ export default class QuickTemplatesPlugin extends Plugin {
                         editorCallback: (editor: Editor) => {
                             if (!editor) return;
 
-                            this.insertTemplateContent(editor, template.content);
+                            this.insertTemplate(editor, template);
                         }
                     });
                 } catch (addError) {
+                    console.error(`Failed to add command for template "${templateKey}":`, addError);
                 }
             });
         } catch (error) {
+            console.error('Failed to register template commands:', error);
         }
     }
 
@@ -228,267 +1031,1146 @@ export default class QuickTemplatesPlugin extends Plugin {
             .replace(/=+$/, '');
     }
 
-    insertTemplateContent(editor: Editor, content: string, startPos?: EditorPosition, endPos?: EditorPosition) {
-        if (!editor || !content) {
-            return;
+    async insertTemplate(editor: Editor, template: Template, startPos?: EditorPosition, endPos?: EditorPosition, placement?: TemplatePlacement) {
+        const file = this.app.workspace.getActiveFile();
+        const inserted = await this.insertTemplateContent(editor, template.content, startPos, endPos, this.getTemplateKey(template), placement || this.getTemplatePlacement(template));
+        if (inserted) {
+            await this.recordTemplateUsage(template, file);
+        }
+    }
+
+    // Creates a note from a template in the given folder, the template's own `folder` or the vault's default location
+    async createNoteFromTemplate(template: Template, folder?: TFolder): Promise<TFile | null> {
+        const activeFile = this.app.workspace.getActiveFile();
+        const context: TemplateContext = {
+            file: null,
+            selection: this.app.workspace.activeEditor?.editor?.getSelection() ?? '',
+        };
+
+        const folderPattern = folder ? '' : template.folder ?? '';
+        const expanded = await this.expandTemplateParts(
+            [folderPattern, template.filename || template.name, template.content],
+            context,
+            this.getTemplateKey(template),
+            (text, index) => {
+                if (index === 1) {
+                    context.title = this.sanitizeNoteName(this.extractTabStops(text).text);
+                }
+            }
+        );
+        if (!expanded) {
+            return null;
+        }
+
+        let folderPath: string;
+        if (folder) {
+            folderPath = folder.path;
+        } else if (expanded[0].trim()) {
+            folderPath = normalizePath(this.extractTabStops(expanded[0]).text.trim());
+        } else {
+            folderPath = this.app.fileManager.getNewFileParent(activeFile?.path ?? '').path;
         }
 
+        const { text, stops } = this.extractTabStops(expanded[2]);
+
         try {
-            if (startPos && endPos) {
-                editor.replaceRange(content, startPos, endPos);
-            } else {
-                editor.replaceSelection(content);
+            if (folderPath !== '/') {
+                await this.ensureFolderExists(folderPath);
             }
 
-            try {
-                const cursor = editor.getCursor();
-                if (cursor) {
-                    editor.setCursor(cursor);
+            const path = this.getAvailableNotePath(folderPath, context.title || 'Untitled');
+            const file = await this.app.vault.create(path, text);
+
+            await this.openNote(file, stops);
+            await this.recordTemplateUsage(template, file);
+            return file;
+        } catch (error) {
+            console.error('Failed to create note from template:', error);
+            new Notice(`Failed to create note from template "${template.name}"`);
+            return null;
+        }
+    }
+
+    registerFolderTemplateEvents() {
+        this.registerEvent(this.app.vault.on('create', (file: TAbstractFile) => {
+            if (file instanceof TFile && file.extension === 'md') {
+                window.setTimeout(() => this.applyFolderTemplate(file), FOLDER_TEMPLATE_DELAY);
+            }
+        }));
+    }
+
+    // A plain folder path matches every note inside it; `*` and `?` stay within one path segment, `**` spans several
+    folderPatternToRegExp(pattern: string): RegExp {
+        const glob = pattern.trim().replace(/^\/+|\/+$/g, '');
+        if (!glob || glob === '**') {
+            return /^/;
+        }
+
+        let source = '';
+        for (let i = 0; i < glob.length; i++) {
+            const char = glob[i];
+            if (char === '*' && glob[i + 1] === '*') {
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
                 }
-            } catch (cursorError) {
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else {
+                source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
             }
-        } catch (error) {
-            new Notice('Failed to insert template. Please try again.');
         }
+
+        return new RegExp(`^${source}(?:/.*)?$`);
     }
 
-    async ensureTemplatesFolderExists() {
-        const templatesPath = normalizePath(this.settings.templatesFolder);
+    // Rules are checked in order, so earlier rules take priority
+    findFolderTemplateRule(path: string): FolderTemplateRule | null {
+        return this.settings.folderTemplates.find(rule =>
+            rule.pattern.trim() && rule.template && this.folderPatternToRegExp(rule.pattern).test(path)
+        ) || null;
+    }
+
+    async applyFolderTemplate(file: TFile) {
+        if (this.isTemplateFilePath(file.path) || !(this.app.vault.getAbstractFileByPath(file.path) instanceof TFile)) {
+            return;
+        }
+
+        const rule = this.findFolderTemplateRule(file.path);
+        if (!rule) {
+            return;
+        }
+
+        // Synced and restored notes keep their original modification time
+        if (Date.now() - file.stat.mtime > FOLDER_TEMPLATE_MAX_AGE) {
+            return;
+        }
+
+        const template = this.findTemplateByReference(rule.template);
+        if (!template) {
+            new Notice(`Template "${rule.template}" for folder rule "${rule.pattern}" not found`);
+            return;
+        }
 
         try {
-            const existingFolder = this.app.vault.getAbstractFileByPath(templatesPath);
+            if ((await this.app.vault.read(file)).trim()) {
+                return;
+            }
 
-            if (existingFolder) {
+            const expanded = await this.expandTemplate(template.content, { file, selection: '' }, this.getTemplateKey(template));
+            if (expanded === null) {
                 return;
             }
+            const { text, stops } = this.extractTabStops(expanded);
 
-            try {
-                await this.app.vault.createFolder(templatesPath);
-                new Notice(`Templates folder created at ${templatesPath}`);
-            } catch (createError) {
-                if (createError.message && createError.message.includes("already exists")) {
+            // The note may have been written to while the variables were being filled in; only ever fill an empty note
+            const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+            if (view && view.file?.path === file.path) {
+                if (view.editor.getValue().trim()) {
+                    return;
+                }
+                view.editor.setValue(text);
+                this.activateTabStops(view.editor, stops, 0);
+            } else {
+                let applied = false;
+                await this.app.vault.process(file, data => {
+                    if (data.trim()) {
+                        return data;
+                    }
+                    applied = true;
+                    return text;
+                });
+                if (!applied) {
                     return;
                 }
-                throw createError;
             }
+
+            await this.recordTemplateUsage(template, file);
         } catch (error) {
-            console.error('Failed to create templates folder:', error);
-            new Notice('Failed to create templates folder. Please check file permissions.');
-            throw error;
+            console.error('Failed to apply folder template:', error);
+            new Notice(`Failed to apply template "${template.name}" to ${file.path}`);
         }
     }
 
-    async loadTemplatesFromFiles() {
-        try {
-            const templatesPath = normalizePath(this.settings.templatesFolder);
+    async openNote(file: TFile, stops: TabStop[] = []) {
+        const leaf = this.app.workspace.getLeaf(false);
+        await leaf.openFile(file);
 
-            const folder = this.app.vault.getAbstractFileByPath(templatesPath);
-            if (!folder) {
-                await this.ensureTemplatesFolderExists();
+        if (stops.length > 0 && leaf.view instanceof MarkdownView) {
+            this.activateTabStops(leaf.view.editor, stops, 0);
+            leaf.view.editor.focus();
+        }
+    }
+
+    getPeriodicNotePath(type: PeriodicNoteType, date: TemplateMoment): string {
+        const config = this.settings.periodicNotes[type];
+        const format = config.format.trim() || DEFAULT_SETTINGS.periodicNotes[type].format;
+        return normalizePath(`${config.folder}/${date.format(format)}.md`);
+    }
+
+    // Opens the daily, weekly or monthly note containing `date`, creating it from its template first if needed
+    async openPeriodicNote(type: PeriodicNoteType, date: TemplateMoment = moment()) {
+        const config = this.settings.periodicNotes[type];
+        const start = date.clone().startOf(PERIODIC_NOTE_PERIODS[type].unit);
+        const path = this.getPeriodicNotePath(type, start);
+
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await this.openNote(existing);
+            return;
+        }
+
+        let template: Template | null = null;
+        if (config.template) {
+            template = this.findTemplateByReference(config.template);
+            if (!template) {
+                new Notice(`Template "${config.template}" for ${type} notes not found`);
                 return;
             }
+        }
 
-            this.settings.templates = [];
+        // Date tokens in the template refer to the start of the note's period, not to today
+        const title = path.slice(path.lastIndexOf('/') + 1, -'.md'.length);
+        let text = '';
+        let stops: TabStop[] = [];
+        if (template) {
+            const expanded = await this.expandTemplate(template.content, { file: null, selection: '', title, date: start }, this.getTemplateKey(template));
+            if (expanded === null) {
+                return;
+            }
+            ({ text, stops } = this.extractTabStops(expanded));
+        }
 
-            const files = this.app.vault.getFiles().filter(file =>
-                file.path.startsWith(this.settings.templatesFolder + '/') &&
-                file.extension === 'md'
-            );
+        try {
+            const folderPath = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+            if (folderPath) {
+                await this.ensureFolderExists(folderPath);
+            }
 
-            if (files.length === 0) {
-                return;
+            const file = await this.app.vault.create(path, text);
+            await this.openNote(file, stops);
+
+            if (template) {
+                await this.recordTemplateUsage(template, file);
             }
+        } catch (error) {
+            console.error(`Failed to create ${type} note:`, error);
+            new Notice(`Failed to create ${type} note ${path}`);
+        }
+    }
 
-            let loadedCount = 0;
-            let errorCount = 0;
+    // Keeps folder rules and periodic notes pointing at a template after it is renamed or moved
+    renameTemplateReferences(previousKey: string, key: string) {
+        this.settings.folderTemplates.forEach(rule => {
+            if (rule.template === previousKey) {
+                rule.template = key;
+            }
+        });
 
-            for (const file of files) {
-                try {
-                    const content = await this.app.vault.read(file);
+        PERIODIC_NOTE_TYPES.forEach(type => {
+            if (this.settings.periodicNotes[type].template === previousKey) {
+                this.settings.periodicNotes[type].template = key;
+            }
+        });
+    }
 
-                    const metaSection = content.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+    // Strips characters Obsidian doesn't allow in file names or that would break links
+    sanitizeNoteName(name: string): string {
+        return name
+            .replace(/[\\/:*?"<>|#^[\]]/g, '-')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
 
-                    if (metaSection) {
-                        const metaContent = metaSection[1];
-                        const templateContent = metaSection[2].trim();
+    getAvailableNotePath(folderPath: string, baseName: string): string {
+        let path = normalizePath(`${folderPath}/${baseName}.md`);
+        for (let suffix = 1; this.app.vault.getAbstractFileByPath(path); suffix++) {
+            path = normalizePath(`${folderPath}/${baseName} ${suffix}.md`);
+        }
+        return path;
+    }
 
-                        const name = metaContent.match(/name:\s*(.*)/)?.[1]?.trim();
-                        const useNameAsCommand = metaContent.match(/useNameAsCommand:\s*(.*)/)?.[1]?.trim() === 'true';
+    async recordTemplateUsage(template: Template, file: TFile | null) {
+        const usage = this.getTemplateUsage(template);
+        this.settings.templateUsage[this.getTemplateKey(template)] = {
+            count: usage.count + 1,
+            lastUsed: Date.now(),
+            lastNote: file ? file.path : usage.lastNote,
+        };
 
-                        if (name) {
-                            this.settings.templates.push({
-                                name,
-                                content: templateContent,
-                                useNameAsCommand: useNameAsCommand !== undefined ? useNameAsCommand : true,
-                            });
-                            loadedCount++;
-                        } else {
-                            const fileName = file.basename;
-                            this.settings.templates.push({
-                                name: fileName,
-                                content: templateContent,
-                                useNameAsCommand: useNameAsCommand !== undefined ? useNameAsCommand : true,
-                            });
-                            loadedCount++;
-                        }
-                    } else {
-                        const fileName = file.basename;
-                        this.settings.templates.push({
-                            name: fileName,
-                            content: content.trim(),
-                            useNameAsCommand: true,
-                        });
-                        loadedCount++;
+        try {
+            await this.saveSettingsData();
+        } catch (error) {
+            console.error('Failed to save template usage:', error);
+        }
+    }
 
-                        try {
-                            const updatedContent = [
-                                '---',
-                                `name: ${fileName}`,
-                                'useNameAsCommand: true',
-                                '---',
-                                '',
-                                content.trim()
-                            ].join('\n');
-
-                            await this.app.vault.modify(file, updatedContent);
-                        } catch (updateError) {
-                        }
-                    }
-                } catch (error) {
-                    console.error(`Failed to load template from file ${file.path}:`, error);
-                    errorCount++;
-                }
+    getTemplateUsage(template: Template): TemplateUsage {
+        return this.settings.templateUsage[this.getTemplateKey(template)] || { count: 0, lastUsed: 0, lastNote: '' };
+    }
+
+    // Usage count decayed by how long ago the template was last used
+    getTemplateFrecency(template: Template): number {
+        const usage = this.getTemplateUsage(template);
+        if (usage.count === 0) {
+            return 0;
+        }
+
+        const ageDays = (Date.now() - usage.lastUsed) / (24 * 60 * 60 * 1000);
+        return usage.count * Math.pow(0.5, ageDays / USAGE_HALF_LIFE_DAYS);
+    }
+
+    getTemplateUsageBoost(template: Template): number {
+        return Math.min(1, Math.log1p(this.getTemplateFrecency(template)) / Math.log1p(20));
+    }
+
+    getTemplateSearchFields(template: Template, triggersOnly: boolean): { field: TemplateMatch['field']; text: string; penalty: number }[] {
+        const fields: { field: TemplateMatch['field']; text: string; penalty: number }[] = [];
+
+        if (template.useNameAsCommand || !triggersOnly) {
+            fields.push({ field: 'name', text: template.name, penalty: 0 });
+        }
+
+        (template.aliases || []).forEach(alias => {
+            fields.push({ field: 'alias', text: alias, penalty: 0.1 });
+        });
+
+        this.parseList(template.frontmatter?.tags).forEach(tag => {
+            fields.push({ field: 'tag', text: tag.replace(/^#/, ''), penalty: 0.5 });
+        });
+
+        fields.push({ field: 'content', text: template.content.substring(0, CONTENT_SEARCH_LIMIT), penalty: 1 });
+
+        return fields;
+    }
+
+    parseList(value: unknown): string[] {
+        if (Array.isArray(value)) return value.map(item => String(item).trim()).filter(Boolean);
+        if (typeof value === 'string') return value.split(',').map(item => item.trim()).filter(Boolean);
+        return [];
+    }
+
+    getTemplateTriggers(template: Template): string[] {
+        const triggers = (template.aliases || []).slice();
+        if (template.useNameAsCommand) {
+            triggers.push(this.getTemplateKey(template));
+        }
+        return triggers;
+    }
+
+    findExactTriggerMatch(query: string): Template | null {
+        const normalized = query.trim().toLowerCase();
+        if (!normalized) {
+            return null;
+        }
+
+        const templates = this.settings.templates.filter(Boolean);
+        const exact = templates.find(template =>
+            (template.aliases || []).some(alias => alias.toLowerCase() === normalized) ||
+            (template.useNameAsCommand && this.getTemplateKey(template).toLowerCase() === normalized)
+        );
+        if (exact) {
+            return exact;
+        }
+
+        // A name shared by templates in different categories is ambiguous; category/name still finds each of them
+        const byName = templates.filter(template => template.useNameAsCommand && template.name.toLowerCase() === normalized);
+        return byName.length === 1 ? byName[0] : null;
+    }
+
+    // Returns an error message when a trigger would be ambiguous, otherwise null
+    validateTemplateTriggers(name: string, aliases: string[], useNameAsCommand: boolean, exclude?: Template, category: string = ''): string | null {
+        const invalid = aliases.find(alias => /\s/.test(alias));
+        if (invalid) {
+            return `Alias "${invalid}" must not contain spaces`;
+        }
+
+        const seen = new Set<string>();
+        for (const alias of aliases) {
+            if (seen.has(alias.toLowerCase())) {
+                return `Alias "${alias}" is listed more than once`;
             }
+            seen.add(alias.toLowerCase());
+        }
 
-            if (loadedCount > 0) {
-                new Notice(`Successfully loaded ${loadedCount} templates`);
+        const normalizedCategory = this.normalizeCategory(category);
+        for (const template of this.settings.templates) {
+            if (!template || template === exclude || (exclude?.path && template.path === exclude.path)) {
+                continue;
             }
 
-            if (this.settings.templates.length > 0 && this.app.workspace.layoutReady) {
-                this.registerTemplateCommands();
+            const otherTriggers = (template.aliases || []).slice();
+            if (template.useNameAsCommand) {
+                otherTriggers.push(template.name);
             }
 
-        } catch (error) {
-            console.error('Failed to load templates from files:', error);
-            new Notice('Failed to load templates from files. Some templates may be missing.');
+            const conflict = otherTriggers.find(trigger => seen.has(trigger.toLowerCase()));
+            if (conflict) {
+                return `"${conflict}" is already used as a trigger by template "${this.getTemplateKey(template)}"`;
+            }
+
+            // Templates in different categories may share a name; they are told apart by category/name
+            if (useNameAsCommand) {
+                const sameName = template.useNameAsCommand && (template.category || '') === normalizedCategory && template.name.toLowerCase() === name.toLowerCase();
+                if (sameName || (template.aliases || []).some(alias => alias.toLowerCase() === name.toLowerCase())) {
+                    return `"${name}" is already used as a trigger by template "${this.getTemplateKey(template)}"`;
+                }
+            }
         }
+
+        return null;
     }
 
-    async saveTemplatesToFiles() {
-        try {
-            const templatesPath = normalizePath(this.settings.templatesFolder);
+    searchTemplates(query: string, triggersOnly: boolean = false): TemplateMatch[] {
+        const templates = (this.settings.templates || []).filter(Boolean);
+        query = query.trim();
 
-            const folder = this.app.vault.getAbstractFileByPath(templatesPath);
-            if (!folder) {
+        if (!query) {
+            const ordered = this.groupTemplatesByCategory(templates)
+                .reduce((sorted: Template[], [, group]) => sorted.concat(group), []);
 
-                await this.ensureTemplatesFolderExists();
+            return ordered
+                .map((template, order) => ({ template, order, boost: this.getTemplateFrecency(template) }))
+                .sort((a, b) => b.boost - a.boost || a.order - b.order)
+                .map(({ template }) => ({ item: template, match: { score: 0, matches: [] }, field: 'none' as const, text: template.name }));
+        }
 
-                const checkFolder = this.app.vault.getAbstractFileByPath(templatesPath);
-                if (!checkFolder) {
-                    throw new Error('Templates folder could not be created');
-                }
+        const search = prepareFuzzySearch(query);
+        const matches: TemplateMatch[] = [];
+
+        templates.forEach(template => {
+            const fields = this.getTemplateSearchFields(template, triggersOnly);
+            if (query.includes('/') && fields[0]?.field === 'name') {
+                fields[0] = { field: 'name', text: this.getTemplateKey(template), penalty: 0 };
             }
 
-            const existingFiles = this.app.vault.getFiles().filter(file =>
-                file.path.startsWith(this.settings.templatesFolder + '/') &&
-                file.extension === 'md'
-            );
+            let best: TemplateMatch | null = null;
+            let bestScore = -Infinity;
 
-            if (this.settings.templates.length === 0) {
-                return;
+            for (const { field, text, penalty } of fields) {
+                const result = search(text);
+                if (result && result.score - penalty > bestScore) {
+                    bestScore = result.score - penalty;
+                    best = { item: template, match: result, field, text };
+                }
             }
 
-            const existingFileMap = new Map();
-            existingFiles.forEach(file => {
-                const baseName = file.basename;
-                existingFileMap.set(baseName, file);
-            });
+            if (best) {
+                best.match = { ...best.match, score: bestScore + this.getTemplateUsageBoost(template) };
+                matches.push(best);
+            }
+        });
 
-            let savedCount = 0;
-            let updatedCount = 0;
-            let unchangedCount = 0;
-            let newCount = 0;
+        const exact = this.findExactTriggerMatch(query);
+        if (exact) {
+            const exactMatch = matches.find(match => match.item === exact);
+            if (exactMatch) {
+                exactMatch.match = { ...exactMatch.match, score: Infinity };
+            }
+        }
 
-            for (const template of this.settings.templates) {
-                try {
-                    if (!template || !template.name) {
-                        continue;
-                    }
+        return matches.sort((a, b) => b.match.score - a.match.score);
+    }
 
-                    const safeFileName = this.createSafeFileName(template.name);
-                    const filePath = normalizePath(`${this.settings.templatesFolder}/${safeFileName}.md`);
-
-                    const metadata = [
-                        '---',
-                        `name: ${template.name}`,
-                        `useNameAsCommand: ${template.useNameAsCommand}`,
-                        '---',
-                        '',
-                        template.content
-                    ].join('\n');
-
-                    if (existingFileMap.has(safeFileName)) {
-                        const existingFile = existingFileMap.get(safeFileName);
-                        const currentContent = await this.app.vault.read(existingFile);
-
-                        if (currentContent !== metadata) {
-                            await this.app.vault.modify(existingFileMap.get(safeFileName), metadata);
-                            updatedCount++;
-                        } else {
-                            unchangedCount++;
-                        }
+    renderTemplateMatch(match: TemplateMatch, el: HTMLElement) {
+        const template = match.item;
+        const titleEl = el.createEl('div', { cls: 'suggestion-title' });
 
-                        existingFileMap.delete(safeFileName);
-                        savedCount++;
-                    } else {
-                        await this.app.vault.create(filePath, metadata);
-                        newCount++;
-                        savedCount++;
-                    }
-                } catch (templateError) {
-                    console.error(`Failed to save template "${template.name}":`, templateError);
-                    new Notice(`Failed to save template "${template.name}". Check the console for details.`);
-                }
+        if (match.field === 'name' && match.text !== template.name) {
+            renderResults(titleEl, match.text, match.match);
+        } else {
+            if (template.category) {
+                titleEl.createSpan({ text: `${template.category}/`, cls: 'suggestion-category' });
             }
 
-            if (savedCount > 0) {
-                new Notice(`Saved ${savedCount} templates to ${templatesPath}`);
+            const nameEl = titleEl.createSpan();
+            if (match.field === 'name') {
+                renderResults(nameEl, template.name, match.match);
+            } else {
+                nameEl.setText(template.name);
             }
+        }
 
-            let deletedCount = 0;
-            for (const [fileName, file] of existingFileMap.entries()) {
-                try {
-                    await this.app.fileManager.trashFile(file);
-                    deletedCount++;
-                } catch (deleteError) {
-                    console.error(`Failed to delete template file "${file.path}":`, deleteError);
+        if (match.field === 'alias' || match.field === 'tag') {
+            const label = match.field === 'alias' ? 'Alias' : 'Tag';
+            const matchEl = el.createEl('div', { cls: 'suggestion-note' });
+            matchEl.appendText(`${label}: `);
+            renderResults(matchEl.createSpan(), match.text, match.match);
+        }
+
+        const commandInfo = this.getTemplateTriggers(template).map(trigger => `${this.settings.triggerPrefix}${trigger}`).join('  ');
+        if (commandInfo) {
+            el.createEl('div', { text: commandInfo, cls: 'suggestion-note' });
+        }
+
+        const previewText = template.content.length > 100
+            ? template.content.substring(0, 100) + '...'
+            : template.content;
+        el.createEl('div', { text: previewText, cls: 'suggestion-content' });
+    }
+
+    getTriggerRegex(): RegExp {
+        const prefix = (this.settings.triggerPrefix || DEFAULT_SETTINGS.triggerPrefix).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        // The prefix starts a trigger only at the start of a line or after whitespace, not inside words, dates or URLs
+        return new RegExp(`(^|\\s)${prefix}([^\\s]*)$`, 'u');
+    }
+
+    // Whether the position is inside frontmatter, a fenced code block or inline code
+    isInsideCode(editor: Editor, cursor: EditorPosition): boolean {
+        if (editor.getLine(0) === '---') {
+            for (let line = 1; line < editor.lineCount(); line++) {
+                if (editor.getLine(line) === '---') {
+                    if (cursor.line <= line) {
+                        return true;
+                    }
+                    break;
                 }
             }
+        }
 
-            if (deletedCount > 0) {
-                new Notice(`Removed ${deletedCount} obsolete template files`);
+        let insideFence = false;
+        for (let line = 0; line < cursor.line; line++) {
+            if (/^\s*(```|~~~)/.test(editor.getLine(line))) {
+                insideFence = !insideFence;
             }
-
-        } catch (error) {
-            console.error('Failed to save templates to files:', error);
-            new Notice('Failed to save templates to files. Please check file permissions.');
         }
+        if (insideFence) {
+            return true;
+        }
+
+        const before = editor.getLine(cursor.line).substring(0, cursor.ch);
+        return (before.match(/`/g) || []).length % 2 === 1;
     }
 
-    createSafeFileName(name: string): string {
-        return name
-            .replace(/[\\/:*?"<>|]/g, '_')
-            .replace(/\s+/g, '_')
-            .substring(0, 100);
+    getTriggerContext(editor: Editor, cursor: EditorPosition): { start: EditorPosition; query: string } | null {
+        const subString = editor.getLine(cursor.line).substring(0, cursor.ch);
+
+        const match = subString.match(this.getTriggerRegex());
+        if (!match || match.index === undefined) {
+            return null;
+        }
+
+        const start = { line: cursor.line, ch: match.index + match[1].length };
+        if (this.settings.ignoreTriggersInCode && this.isInsideCode(editor, start)) {
+            return null;
+        }
+
+        return { start, query: match[2] };
     }
 
-    clearAllTooltips() {
-        document.querySelectorAll('.template-tooltip').forEach(element => element.remove());
+    findTemplateByAlias(alias: string): Template | null {
+        const normalized = alias.toLowerCase();
+        return this.settings.templates.find(template =>
+            template && (template.aliases || []).some(candidate => candidate.toLowerCase() === normalized)
+        ) || null;
     }
 
-    async validateTemplatesFolder() {
-        try {
-            const templatesPath = normalizePath(this.settings.templatesFolder);
+    // `typed` is the character that triggered the expansion; it is kept after the inserted template
+    tryAutoExpand(view: EditorView, typed: string = ''): boolean {
+        if (!this.settings.autoExpand) {
+            return false;
+        }
+
+        const editor = view.state.field(editorInfoField, false)?.editor;
+        if (!editor || editor.somethingSelected()) {
+            return false;
+        }
+
+        const cursor = editor.getCursor();
+        const trigger = this.getTriggerContext(editor, cursor);
+        if (!trigger || !trigger.query) {
+            return false;
+        }
+
+        const template = this.findTemplateByAlias(trigger.query);
+        if (!template) {
+            return false;
+        }
+
+        if (typed) {
+            const head = view.state.selection.main.head;
+            view.dispatch({ changes: { from: head, insert: typed }, selection: { anchor: head + typed.length }, userEvent: 'input.type' });
+        }
+
+        this.insertTemplate(editor, template, trigger.start, cursor);
+        return true;
+    }
+
+    createAutoExpandExtension() {
+        return [
+            EditorView.inputHandler.of((view, from, to, text) => text === ' ' && from === to && this.tryAutoExpand(view, text)),
+            Prec.highest(keymap.of([{ key: 'Tab', run: view => this.tryAutoExpand(view) }])),
+        ];
+    }
+
+    getTemplatePlacement(template: Template): TemplatePlacement {
+        return { mode: template.placement || 'selection', heading: template.heading };
+    }
+
+    async insertTemplateContent(editor: Editor, content: string, startPos?: EditorPosition, endPos?: EditorPosition, source: string = '', placement: TemplatePlacement = { mode: 'selection' }): Promise<boolean> {
+        if (!editor || !content) {
+            return false;
+        }
+
+        const context: TemplateContext = {
+            file: this.app.workspace.getActiveFile(),
+            selection: startPos && endPos ? '' : editor.getSelection(),
+        };
+
+        // A template that uses {{selection}} wraps the selected text where it is, whatever its placement
+        if (context.selection && placement.mode !== 'selection' && this.usesSelectionToken(content, source)) {
+            placement = { mode: 'selection' };
+        }
+
+        const expanded = await this.expandTemplate(content, context, source);
+        if (expanded === null) {
+            return false;
+        }
+
+        // A properties block at the start of the template is merged into the note's frontmatter; only the body is inserted
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        const targetFile = view && view.editor === editor ? view.file : null;
+        let properties: Record<string, unknown> | null = null;
+        let body = expanded;
+        if (targetFile) {
+            const split = this.splitFrontmatter(expanded);
+            if (split.frontmatter) {
+                properties = split.frontmatter;
+                body = split.body;
+            }
+        }
+        const { text, stops } = this.extractTabStops(body);
+
+        try {
+            const atCursor = placement.mode === 'selection' || placement.mode === 'cursor';
+
+            // Text typed to trigger the template is removed even when the template goes elsewhere in the note
+            if (startPos && endPos && !atCursor) {
+                editor.replaceRange('', startPos, endPos);
+            }
+
+            const range = startPos && endPos && atCursor
+                ? { from: startPos, to: endPos, before: '', after: '' }
+                : this.getPlacementRange(editor, placement);
+            const insertOffset = editor.posToOffset(range.from) + range.before.length;
+
+            editor.replaceRange(range.before + text + range.after, range.from, range.to);
+
+            try {
+                this.activateTabStops(editor, stops, insertOffset);
+                editor.focus();
+            } catch (cursorError) {
+            }
+
+            if (view && targetFile && properties && Object.keys(properties).length > 0) {
+                try {
+                    await view.save();
+                    await this.mergeFrontmatter(targetFile, properties);
+                } catch (error) {
+                    console.error('Failed to merge template properties:', error);
+                    new Notice('Template inserted, but its properties could not be added to the note\'s frontmatter.');
+                }
+            }
+            return true;
+        } catch (error) {
+            new Notice('Failed to insert template. Please try again.');
+            return false;
+        }
+    }
+
+    // Template text as it would be inserted, with sample values for variables and input-dependent tokens
+    buildTemplatePreview(template: Template): string {
+        const key = this.getTemplateKey(template);
+        const nodes = parseTemplate(template.content, key);
+        const variables = this.collectTemplateVariables(nodes, [key], [], new Set());
+
+        const values: Record<string, string> = {};
+        variables.forEach(variable => {
+            values[variable.name] = variable.defaultValue || (variable.isList ? `${variable.name} 1, ${variable.name} 2` : variable.name);
+        });
+
+        const context: TemplateContext = {
+            file: null,
+            selection: 'Selected text',
+            clipboard: 'Clipboard text',
+            title: this.app.workspace.getActiveFile()?.basename ?? 'Untitled',
+        };
+
+        return this.extractTabStops(this.renderTemplateNodes(nodes, { values, context }, [key])).text;
+    }
+
+    usesSelectionToken(content: string, source: string = ''): boolean {
+        const builtins = new Set<string>();
+        try {
+            this.collectTemplateVariables(parseTemplate(content, source), source ? [source] : [], [], builtins);
+        } catch (error) {
+            return false;
+        }
+        return builtins.has('selection');
+    }
+
+    // Where a placement inserts into the note, with any line breaks or heading needed around the template text
+    getPlacementRange(editor: Editor, placement: TemplatePlacement): { from: EditorPosition; to: EditorPosition; before: string; after: string } {
+        const lastLine = editor.lastLine();
+        const end = { line: lastLine, ch: editor.getLine(lastLine).length };
+        const content = editor.getValue();
+
+        switch (placement.mode) {
+            case 'cursor': {
+                const cursor = editor.getCursor('head');
+                return { from: cursor, to: cursor, before: '', after: '' };
+            }
+            case 'top': {
+                const line = this.getNoteBodyStartLine(editor);
+                if (line > lastLine) {
+                    return { from: end, to: end, before: '\n', after: '' };
+                }
+                const pos = { line, ch: 0 };
+                return { from: pos, to: pos, before: '', after: '\n' };
+            }
+            case 'bottom':
+                return { from: end, to: end, before: content && !content.endsWith('\n') ? '\n' : '', after: '' };
+            case 'heading': {
+                const match = (placement.heading || '').trim().match(/^(#{1,6})\s+(.*)$/);
+                const level = match ? match[1].length : 2;
+                const title = (match ? match[2] : placement.heading || '').trim();
+                if (!title) {
+                    return this.getPlacementRange(editor, { mode: 'bottom' });
+                }
+
+                const headings = this.getNoteHeadings(editor);
+                const index = headings.findIndex(heading => heading.text.toLowerCase() === title.toLowerCase());
+                if (index < 0) {
+                    const separator = !content ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+                    return { from: end, to: end, before: `${separator}${'#'.repeat(level)} ${title}\n`, after: '' };
+                }
+
+                // Insert after the last non-empty line before the next heading, so entries stay above any subheadings
+                const heading = headings[index];
+                const next = headings[index + 1];
+                let line = (next ? next.line : lastLine + 1) - 1;
+                while (line > heading.line && !editor.getLine(line).trim()) {
+                    line--;
+                }
+                const pos = { line, ch: editor.getLine(line).length };
+                return { from: pos, to: pos, before: '\n', after: '' };
+            }
+            default: {
+                return { from: editor.getCursor('from'), to: editor.getCursor('to'), before: '', after: '' };
+            }
+        }
+    }
+
+    // First line after the note's frontmatter
+    getNoteBodyStartLine(editor: Editor): number {
+        if (editor.getLine(0) === '---') {
+            for (let line = 1; line < editor.lineCount(); line++) {
+                if (editor.getLine(line) === '---') {
+                    return line + 1;
+                }
+            }
+        }
+        return 0;
+    }
+
+    getNoteHeadings(editor: Editor): NoteHeading[] {
+        const headings: NoteHeading[] = [];
+        let insideFence = false;
+
+        for (let line = this.getNoteBodyStartLine(editor); line < editor.lineCount(); line++) {
+            const text = editor.getLine(line);
+            if (/^\s*(```|~~~)/.test(text)) {
+                insideFence = !insideFence;
+                continue;
+            }
+
+            const match = !insideFence && text.match(HEADING_REGEX);
+            if (match) {
+                headings.push({ line, level: match[1].length, text: match[2] });
+            }
+        }
+
+        return headings;
+    }
+
+    async mergeFrontmatter(file: TFile, properties: Record<string, unknown>) {
+        const strategy = this.settings.frontmatterMergeStrategy;
+
+        await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            Object.entries(properties).forEach(([key, value]) => {
+                const current = frontmatter[key];
+                if (current === undefined || current === null || current === '' || strategy === 'overwrite') {
+                    frontmatter[key] = value;
+                } else if (strategy === 'append') {
+                    frontmatter[key] = this.appendFrontmatterValue(current, value);
+                }
+            });
+        });
+    }
+
+    // Combines two property values into one list without duplicates; equal values stay as they are
+    appendFrontmatterValue(current: unknown, value: unknown): unknown {
+        const combined = ([] as unknown[]).concat(current, value);
+        const unique = combined.filter((item, index) =>
+            combined.findIndex(other => JSON.stringify(other) === JSON.stringify(item)) === index
+        );
+
+        return unique.length === 1 && !Array.isArray(current) ? current : unique;
+    }
+
+    extractTabStops(content: string): { text: string; stops: TabStop[] } {
+        const stops: TabStop[] = [];
+        const seen = new Set<number>();
+        const defaults = new Map<number, string>();
+        let text = '';
+        let lastIndex = 0;
+
+        const regex = new RegExp(TAB_STOP_REGEX.source, 'g');
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(content)) !== null) {
+            text += content.substring(lastIndex, match.index);
+            lastIndex = match.index + match[0].length;
+
+            if (match[0] === '\\$') {
+                text += '$';
+                continue;
+            }
+
+            const index = parseInt(match[1] ?? match[2], 10);
+            const placeholder = match[3] ?? defaults.get(index) ?? '';
+            if (match[3] !== undefined && !defaults.has(index)) {
+                defaults.set(index, match[3]);
+            }
+
+            if (!seen.has(index)) {
+                seen.add(index);
+                stops.push({ index, from: text.length, to: text.length + placeholder.length });
+            }
+            text += placeholder;
+        }
+        text += content.substring(lastIndex);
+
+        // $1, $2, ... come first; $0 is the final cursor position
+        stops.sort((a, b) => {
+            if (a.index === 0) return 1;
+            if (b.index === 0) return -1;
+            return a.index - b.index;
+        });
+
+        return { text, stops };
+    }
+
+    activateTabStops(editor: Editor, stops: TabStop[], insertOffset: number) {
+        if (stops.length === 0) {
+            return;
+        }
+
+        const absolute = stops.map(stop => ({
+            index: stop.index,
+            from: insertOffset + stop.from,
+            to: insertOffset + stop.to,
+        }));
+
+        const [first] = absolute;
+        editor.setSelection(editor.offsetToPos(first.from), editor.offsetToPos(first.to));
+
+        if (editor.cm && absolute.length > 1) {
+            editor.cm.dispatch({ effects: setTabStopsEffect.of(absolute) });
+        }
+    }
+
+    async expandTemplate(content: string, context: TemplateContext, source: string = ''): Promise<string | null> {
+        const expanded = await this.expandTemplateParts([content], context, source);
+        return expanded ? expanded[0] : null;
+    }
+
+    // Expands several parts of one template (e.g. a file name and its content) behind a single variable prompt.
+    // Parts render in order, so `onRendered` can update the context before the next one.
+    async expandTemplateParts(parts: string[], context: TemplateContext, source: string = '', onRendered?: (text: string, index: number) => void): Promise<string[] | null> {
+        const missing: string[] = [];
+        const builtins = new Set<string>();
+        const collected = new Map<string, TemplateVariable>();
+        let nodes: TemplateNode[][];
+        let variables: TemplateVariable[] = [];
+
+        try {
+            nodes = parts.map(part => parseTemplate(part, source));
+            nodes.forEach(partNodes => {
+                variables = this.collectTemplateVariables(partNodes, source ? [source] : [], missing, builtins, collected);
+            });
+        } catch (error) {
+            console.error('Failed to parse template:', error);
+            new Notice(error.message);
+            return null;
+        }
+
+        if (missing.length > 0) {
+            new Notice(`Included template${missing.length > 1 ? 's' : ''} not found: ${missing.join(', ')}`);
+        }
+
+        if (context.clipboard === undefined && builtins.has('clipboard')) {
+            context.clipboard = await this.readClipboard();
+        }
+
+        let values: Record<string, string> = {};
+        if (variables.length > 0) {
+            const answers = await this.promptTemplateVariables(variables);
+            if (!answers) {
+                return null;
+            }
+            values = answers;
+        }
+
+        try {
+            return nodes.map((partNodes, index) => {
+                const text = this.renderTemplateNodes(partNodes, { values, context }, source ? [source] : []);
+                onRendered?.(text, index);
+                return text;
+            });
+        } catch (error) {
+            console.error('Failed to render template:', error);
+            new Notice(error.message);
+            return null;
+        }
+    }
+
+    // Variables the user has to fill in, in order of first appearance, including those of included templates
+    collectTemplateVariables(nodes: TemplateNode[], stack: string[], missing: string[], builtins: Set<string>, variables: Map<string, TemplateVariable> = new Map(), loopDepth: number = 0): TemplateVariable[] {
+        const addVariable = (name: string, defaultValue: string, isList: boolean) => {
+            if (BUILTIN_TOKENS.includes(name)) {
+                builtins.add(name);
+                return;
+            }
+            if (loopDepth > 0 && LOOP_TOKENS.includes(name)) {
+                return;
+            }
+
+            const existing = variables.get(name);
+            if (!existing) {
+                variables.set(name, { name, defaultValue, isList });
+            } else {
+                if (!existing.defaultValue && defaultValue) {
+                    existing.defaultValue = defaultValue;
+                }
+                existing.isList = existing.isList || isList;
+            }
+        };
+
+        for (const node of nodes) {
+            switch (node.type) {
+                case 'output':
+                    addVariable(node.name, BUILTIN_TOKENS.includes(node.name) ? '' : node.arg || '', false);
+                    break;
+                case 'if':
+                    addVariable(node.condition.name, '', false);
+                    this.collectTemplateVariables(node.then, stack, missing, builtins, variables, loopDepth);
+                    this.collectTemplateVariables(node.otherwise, stack, missing, builtins, variables, loopDepth);
+                    break;
+                case 'each':
+                    addVariable(node.name, '', true);
+                    this.collectTemplateVariables(node.body, stack, missing, builtins, variables, loopDepth + 1);
+                    break;
+                case 'include': {
+                    const included = this.resolveInclude(node.reference, stack, missing);
+                    if (included) {
+                        const key = this.getTemplateKey(included);
+                        this.collectTemplateVariables(parseTemplate(included.content, key), stack.concat(key), missing, builtins, variables, loopDepth);
+                    }
+                    break;
+                }
+            }
+        }
+
+        return Array.from(variables.values());
+    }
+
+    resolveInclude(reference: string, stack: string[], missing: string[]): Template | null {
+        const template = this.findTemplateByReference(reference);
+        if (!template) {
+            if (!missing.includes(reference)) {
+                missing.push(reference);
+            }
+            return null;
+        }
+
+        // Stack entries are template keys, so templates with the same name in different categories can include each other
+        const key = this.getTemplateKey(template);
+        if (stack.includes(key)) {
+            throw new Error(`Template include cycle: ${stack.concat(key).join(' → ')}`);
+        }
+
+        return template;
+    }
+
+    renderTemplateNodes(nodes: TemplateNode[], scope: TemplateScope, stack: string[]): string {
+        let output = '';
+
+        for (const node of nodes) {
+            switch (node.type) {
+                case 'text':
+                    output += node.value;
+                    break;
+                case 'output': {
+                    const source = stack[stack.length - 1] || '';
+                    let value = this.resolveTemplateValue(node.name, node.arg, scope);
+                    for (const filter of node.filters) {
+                        try {
+                            value = TEMPLATE_FILTERS[filter.name](value, filter.arg);
+                        } catch (error) {
+                            throw new TemplateSyntaxError(`filter "${filter.name}" failed: ${error.message}`, node.line, source);
+                        }
+                    }
+                    output += this.escapeTabStops(templateValueToText(value));
+                    break;
+                }
+                case 'if':
+                    output += this.renderTemplateNodes(this.evaluateCondition(node.condition, scope) ? node.then : node.otherwise, scope, stack);
+                    break;
+                case 'each': {
+                    const items = this.parseList(templateValueToText(this.resolveTemplateValue(node.name, undefined, scope)));
+                    items.forEach((item, index) => {
+                        output += this.renderTemplateNodes(node.body, { ...scope, item, index }, stack);
+                    });
+                    break;
+                }
+                case 'include': {
+                    const included = this.resolveInclude(node.reference, stack, []);
+                    if (included) {
+                        const key = this.getTemplateKey(included);
+                        output += this.renderTemplateNodes(parseTemplate(included.content, key), scope, stack.concat(key));
+                    } else {
+                        output += `{{> ${node.reference}}}`;
+                    }
+                    break;
+                }
+            }
+        }
+
+        return output;
+    }
+
+    resolveTemplateValue(name: string, arg: string | undefined, scope: TemplateScope): TemplateValue {
+        if (scope.item !== undefined && name === 'this') {
+            return scope.item;
+        }
+        if (scope.index !== undefined && name === '@index') {
+            return String(scope.index + 1);
+        }
+        if (BUILTIN_TOKENS.includes(name)) {
+            return this.resolveBuiltinToken(name, arg, scope.context);
+        }
+
+        const value = Object.prototype.hasOwnProperty.call(scope.values, name) ? scope.values[name] : '';
+        return value || arg || '';
+    }
+
+    evaluateCondition(condition: TemplateCondition, scope: TemplateScope): boolean {
+        const value = templateValueToText(this.resolveTemplateValue(condition.name, undefined, scope)).trim();
+
+        let result: boolean;
+        if (condition.operator) {
+            const equal = value.toLowerCase() === (condition.value || '').toLowerCase();
+            result = condition.operator === '==' ? equal : !equal;
+        } else {
+            result = value !== '';
+        }
+
+        return condition.negate ? !result : result;
+    }
+
+    findTemplateByReference(reference: string): Template | null {
+        const normalized = reference.trim().toLowerCase();
+        const templates = this.settings.templates.filter(Boolean);
+
+        return templates.find(template => this.getTemplateKey(template).toLowerCase() === normalized)
+            || templates.find(template => template.name.toLowerCase() === normalized)
+            || this.findTemplateByAlias(normalized);
+    }
+
+    async readClipboard(): Promise<string> {
+        try {
+            return await navigator.clipboard.readText();
+        } catch (error) {
+            console.error('Failed to read clipboard:', error);
+            return '';
+        }
+    }
+
+    resolveBuiltinToken(name: string, arg: string | undefined, context: TemplateContext): TemplateValue {
+        switch (name) {
+            case 'date':
+                return { date: context.date ? context.date.clone() : moment(), format: arg || DEFAULT_DATE_FORMAT };
+            case 'time':
+                return { date: moment(), format: arg || DEFAULT_TIME_FORMAT };
+            case 'title':
+                return context.title ?? (context.file?.basename || arg || '');
+            case 'selection':
+                return context.selection || arg || '';
+            case 'clipboard':
+                return context.clipboard || arg || '';
+            default:
+                return '';
+        }
+    }
+
+    escapeTabStops(value: string): string {
+        return value.replace(TAB_STOP_START_REGEX, '\\$');
+    }
+
+    promptTemplateVariables(variables: TemplateVariable[]): Promise<Record<string, string> | null> {
+        return new Promise(resolve => {
+            new TemplateVariablesModal(this.app, variables, resolve).open();
+        });
+    }
+
+    async ensureFolderExists(path: string) {
+        if (this.app.vault.getAbstractFileByPath(path)) {
+            return;
+        }
+
+        try {
+            await this.app.vault.createFolder(path);
+        } catch (error) {
+            if (!(error.message && error.message.includes("already exists"))) {
+                throw error;
+            }
+        }
+    }
+
+    async ensureTemplatesFolderExists() {
+        const templatesPath = normalizePath(this.settings.templatesFolder);
+
+        try {
+            const existingFolder = this.app.vault.getAbstractFileByPath(templatesPath);
+
+            if (existingFolder) {
+                return;
+            }
+
+            try {
+                await this.app.vault.createFolder(templatesPath);
+                new Notice(`Templates folder created at ${templatesPath}`);
+            } catch (createError) {
+                if (createError.message && createError.message.includes("already exists")) {
+                    return;
+                }
+                throw createError;
+            }
+        } catch (error) {
+            console.error('Failed to create templates folder:', error);
+            new Notice('Failed to create templates folder. Please check file permissions.');
+            throw error;
+        }
+    }
+
+    async loadTemplatesFromFiles() {
+        try {
+            const templatesPath = normalizePath(this.settings.templatesFolder);
 
             const folder = this.app.vault.getAbstractFileByPath(templatesPath);
             if (!folder) {
@@ -496,92 +2178,1631 @@ export default class QuickTemplatesPlugin extends Plugin {
                 return;
             }
 
-            if (folder instanceof TFile) {
-                console.error(`Templates path ${templatesPath} is a file, not a folder`);
-                new Notice(`Templates path is a file, not a folder. Please check settings.`);
-                return;
-            }
+            this.settings.templates = [];
+
+            const files = this.app.vault.getFiles().filter(file =>
+                file.path.startsWith(this.settings.templatesFolder + '/') &&
+                file.extension === 'md'
+            );
+
+            if (files.length === 0) {
+                return;
+            }
+
+            let loadedCount = 0;
+            let errorCount = 0;
+
+            for (const file of files) {
+                try {
+                    const content = await this.app.vault.read(file);
+
+                    const template = this.createTemplateFromFile(file, content);
+                    this.settings.templates.push(template);
+                    loadedCount++;
+                } catch (error) {
+                    console.error(`Failed to load template from file ${file.path}:`, error);
+                    errorCount++;
+                }
+            }
+
+            if (loadedCount > 0) {
+                new Notice(`Successfully loaded ${loadedCount} templates`);
+            }
+
+            if (this.settings.templates.length > 0 && this.app.workspace.layoutReady) {
+                this.registerTemplateCommands();
+            }
+
+        } catch (error) {
+            console.error('Failed to load templates from files:', error);
+            new Notice('Failed to load templates from files. Some templates may be missing.');
+        }
+    }
+
+    registerTemplateFolderEvents() {
+        this.registerEvent(this.app.vault.on('create', (file: TAbstractFile) => {
+            this.onTemplateFileChanged(file);
+        }));
+
+        this.registerEvent(this.app.vault.on('modify', (file: TAbstractFile) => {
+            this.onTemplateFileChanged(file);
+        }));
+
+        this.registerEvent(this.app.vault.on('delete', (file: TAbstractFile) => {
+            const deleted = this.onTemplateFileDeleted(file.path);
+            deleted.forEach(template => this.forgetTemplateData(template));
+            if (deleted.length > 0) {
+                this.saveSettingsData().catch(error => console.error('Failed to save template data:', error));
+            }
+        }));
+
+        this.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+            // Renaming a file or category folder outside the plugin keeps the templates' statistics
+            const moved = this.onTemplateFileDeleted(oldPath);
+            moved.forEach(template => {
+                const path = file.path + (template.path || '').substring(oldPath.length);
+                if (this.isTemplateFilePath(path)) {
+                    this.moveTemplateData(template, this.getRenamedTemplate(template, path));
+                } else {
+                    this.forgetTemplateData(template);
+                }
+            });
+            if (moved.length > 0) {
+                this.saveSettingsData().catch(error => console.error('Failed to save template data:', error));
+            }
+
+            this.onTemplateFileChanged(file);
+        }));
+    }
+
+    // The template a file would load as after being moved to another path
+    getRenamedTemplate(template: Template, path: string): Template {
+        const category = this.getCategoryFromPath(path);
+        const name = template.unmanaged ? path.substring(path.lastIndexOf('/') + 1).replace(/\.md$/, '') : template.name;
+        return { ...template, name, category: category || undefined, path };
+    }
+
+    // Usage statistics and version history are keyed by category and name, so they follow a template that is renamed or moved
+    moveTemplateData(from: Template, to: Template) {
+        const fromKey = this.getTemplateKey(from);
+        const toKey = this.getTemplateKey(to);
+        if (fromKey === toKey) {
+            return;
+        }
+
+        if (this.settings.templateUsage[fromKey]) {
+            this.settings.templateUsage[toKey] = this.settings.templateUsage[fromKey];
+            delete this.settings.templateUsage[fromKey];
+        }
+
+        if (this.settings.templateHistory[fromKey]) {
+            this.settings.templateHistory[toKey] = this.settings.templateHistory[fromKey];
+            delete this.settings.templateHistory[fromKey];
+        }
+    }
+
+    // Keeps a new template with the same name from inheriting a deleted one's statistics and history
+    forgetTemplateData(template: Template) {
+        const key = this.getTemplateKey(template);
+        delete this.settings.templateUsage[key];
+        delete this.settings.templateHistory[key];
+    }
+
+    isTemplateFilePath(path: string): boolean {
+        const templatesPath = normalizePath(this.settings.templatesFolder);
+        return path.startsWith(templatesPath + '/') && path.endsWith('.md');
+    }
+
+    async onTemplateFileChanged(file: TAbstractFile) {
+        if (!(file instanceof TFile) || !this.isTemplateFilePath(file.path)) {
+            return;
+        }
+
+        try {
+            const content = await this.app.vault.read(file);
+            const template = this.createTemplateFromFile(file, content);
+
+            let index = this.settings.templates.findIndex(t => t.path === file.path);
+            if (index < 0) {
+                index = this.settings.templates.findIndex(t => !t.path && t.name === template.name);
+            }
+
+            if (index >= 0) {
+                if (this.getTemplateKey(this.settings.templates[index]) !== this.getTemplateKey(template)) {
+                    this.moveTemplateData(this.settings.templates[index], template);
+                    await this.saveSettingsData();
+                }
+                this.settings.templates[index] = template;
+            } else {
+                this.settings.templates.push(template);
+            }
+
+            this.refreshTemplateCommands();
+        } catch (error) {
+            console.error(`Failed to reload template from file ${file.path}:`, error);
+        }
+    }
+
+    onTemplateFileDeleted(path: string): Template[] {
+        const isDeleted = (template: Template) => !!template.path && (template.path === path || template.path.startsWith(path + '/'));
+        const deleted = this.settings.templates.filter(isDeleted);
+
+        if (deleted.length > 0) {
+            this.settings.templates = this.settings.templates.filter(template => !isDeleted(template));
+            this.refreshTemplateCommands();
+        }
+
+        return deleted;
+    }
+
+    async saveTemplate(template: Template, previous?: Template): Promise<boolean> {
+        const templates = this.settings.templates;
+        let previousIndex = previous ? templates.indexOf(previous) : -1;
+        if (previous?.path && previousIndex < 0) {
+            previousIndex = templates.findIndex(t => t.path === previous.path);
+        }
+        const previousPath = template.path;
+
+        try {
+            await this.ensureTemplatesFolderExists();
+
+            const existing = previous?.path ? this.app.vault.getAbstractFileByPath(previous.path) : null;
+            const currentFile = existing instanceof TFile ? existing : null;
+
+            template.category = this.normalizeCategory(template.category || '');
+
+            let targetPath = currentFile ? currentFile.path : null;
+            if (!targetPath || previous?.name !== template.name || (previous?.category || '') !== template.category) {
+                const folderPath = this.getCategoryFolderPath(template.category);
+                const desiredPath = normalizePath(`${folderPath}/${this.createSafeFileName(template.name)}.md`);
+
+                if (desiredPath !== targetPath) {
+                    const conflict = this.app.vault.getAbstractFileByPath(desiredPath);
+                    if (conflict) {
+                        const owner = templates.find(t => t.path === desiredPath);
+                        const ownerInfo = owner ? ` (used by template "${owner.name}")` : '';
+                        new Notice(`Cannot save template "${template.name}": file ${desiredPath} already exists${ownerInfo}. Choose a different name.`);
+                        return false;
+                    }
+                }
+
+                targetPath = desiredPath;
+            }
+
+            await this.ensureFolderExists(this.getCategoryFolderPath(template.category));
+
+            template.path = targetPath;
+            delete template.unmanaged;
+            if (previousIndex >= 0) {
+                templates[previousIndex] = template;
+            } else {
+                templates.push(template);
+            }
+
+            if (currentFile && currentFile.path !== targetPath) {
+                await this.app.fileManager.renameFile(currentFile, targetPath);
+            }
+
+            if (previous && this.getTemplateKey(previous) !== this.getTemplateKey(template)) {
+                this.moveTemplateData(previous, template);
+                this.renameTemplateReferences(this.getTemplateKey(previous), this.getTemplateKey(template));
+                await this.saveSettingsData();
+            }
+
+            const serialized = this.serializeTemplate(template);
+            const file = this.app.vault.getAbstractFileByPath(targetPath);
+            if (file instanceof TFile) {
+                const currentContent = await this.app.vault.read(file);
+                if (currentContent !== serialized) {
+                    this.recordTemplateRevision(template, currentContent);
+                    await this.saveSettingsData();
+                    await this.app.vault.modify(file, serialized);
+                }
+            } else {
+                await this.app.vault.create(targetPath, serialized);
+            }
+
+            this.registerTemplateCommands();
+            return true;
+        } catch (error) {
+            template.path = previousPath;
+            const index = templates.indexOf(template);
+            if (index >= 0) {
+                if (previous) {
+                    templates[index] = previous;
+                } else {
+                    templates.splice(index, 1);
+                }
+            }
+
+            console.error(`Failed to save template "${template.name}":`, error);
+            new Notice(`Failed to save template "${template.name}". Check the console for details.`);
+            return false;
+        }
+    }
+
+    // Replaces an existing template with new values, keeping its file
+    async overwriteTemplate(existing: Template, template: Template): Promise<TemplateChange[]> {
+        return this.updateTemplates([existing], current => ({
+            ...current,
+            ...template,
+            path: current.path,
+        }));
+    }
+
+    createTemplatePack(templates: Template[]): string {
+        const entries: TemplatePackEntry[] = templates.map(template => ({
+            category: template.category || undefined,
+            markdown: this.serializeTemplate(template),
+        }));
+
+        return JSON.stringify({
+            type: TEMPLATE_PACK_TYPE,
+            version: TEMPLATE_PACK_VERSION,
+            exported: moment().toISOString(),
+            templates: entries,
+        }, null, 2);
+    }
+
+    parseTemplatePack(text: string): Template[] {
+        let pack: { type?: unknown; version?: unknown; templates?: unknown };
+        try {
+            pack = JSON.parse(text);
+        } catch (error) {
+            throw new Error('The file is not valid JSON');
+        }
+
+        if (!pack || pack.type !== TEMPLATE_PACK_TYPE || !Array.isArray(pack.templates)) {
+            throw new Error('The file is not a Quick Templates pack');
+        }
+
+        if (typeof pack.version === 'number' && pack.version > TEMPLATE_PACK_VERSION) {
+            throw new Error('The pack was exported by a newer version of Quick Templates; update the plugin to import it');
+        }
+
+        return (pack.templates as TemplatePackEntry[])
+            .filter(entry => entry && typeof entry.markdown === 'string')
+            .map((entry, index) => {
+                const template = this.parseTemplateFile(entry.markdown, `Imported template ${index + 1}`);
+                template.category = this.normalizeCategory(typeof entry.category === 'string' ? entry.category : '');
+                return template;
+            });
+    }
+
+    async exportTemplates(templates: Template[], fileName: string): Promise<TFile | null> {
+        try {
+            const baseName = this.sanitizeNoteName(fileName) || 'Templates';
+            let path = normalizePath(`${baseName}.json`);
+            for (let suffix = 1; this.app.vault.getAbstractFileByPath(path); suffix++) {
+                path = normalizePath(`${baseName} ${suffix}.json`);
+            }
+
+            const file = await this.app.vault.create(path, this.createTemplatePack(templates));
+            new Notice(`Exported ${templates.length} template${templates.length === 1 ? '' : 's'} to ${path}`);
+            return file;
+        } catch (error) {
+            console.error('Failed to export templates:', error);
+            new Notice('Failed to export templates. Check console for details.');
+            return null;
+        }
+    }
+
+    async importTemplatePack(file: TFile) {
+        let templates: Template[];
+        try {
+            templates = this.parseTemplatePack(await this.app.vault.read(file));
+        } catch (error) {
+            console.error('Failed to read template pack:', error);
+            new Notice(`Cannot import ${file.name}: ${error.message}`);
+            return;
+        }
+
+        if (templates.length === 0) {
+            new Notice(`${file.name} contains no templates`);
+            return;
+        }
+
+        const conflicts = templates.filter(template => this.findTemplateByName(template.name, template.category));
+        if (conflicts.length === 0) {
+            this.reportImport(await this.importTemplates(templates, new Map()));
+            return;
+        }
+
+        new ImportConflictModal(this.app, this, conflicts, async (resolutions) => {
+            this.reportImport(await this.importTemplates(templates, resolutions));
+        }).open();
+    }
+
+    async importTemplates(templates: Template[], resolutions: Map<Template, ImportResolution>): Promise<ImportSummary> {
+        const summary: ImportSummary = { added: 0, overwritten: [], renamed: 0, skipped: 0, failed: [] };
+
+        for (const template of templates) {
+            const existing = this.findTemplateByName(template.name, template.category);
+            const resolution = existing ? resolutions.get(template) || 'skip' : null;
+
+            if (resolution === 'skip') {
+                summary.skipped++;
+                continue;
+            }
+
+            let imported = template;
+            if (resolution === 'rename') {
+                // The pack's aliases usually belong to the template being kept, so a renamed copy only gets the free ones
+                imported = {
+                    ...template,
+                    name: this.getAvailableTemplateName(template.name, template.category),
+                    aliases: (template.aliases || []).filter(alias => !this.validateTemplateTriggers('', [alias], false)),
+                };
+            }
+
+            const triggerError = this.validateTemplateTriggers(
+                imported.name,
+                imported.aliases || [],
+                imported.useNameAsCommand,
+                resolution === 'overwrite' && existing ? existing : undefined,
+                imported.category
+            );
+            if (triggerError) {
+                summary.failed.push(`${template.name}: ${triggerError}`);
+                continue;
+            }
+
+            if (resolution === 'overwrite' && existing) {
+                const changes = await this.overwriteTemplate(existing, imported);
+                if (changes.length > 0) {
+                    summary.overwritten.push(...changes);
+                } else {
+                    summary.failed.push(template.name);
+                }
+                continue;
+            }
+
+            if (!await this.saveTemplate(imported)) {
+                summary.failed.push(template.name);
+            } else if (resolution === 'rename') {
+                summary.renamed++;
+            } else {
+                summary.added++;
+            }
+        }
+
+        return summary;
+    }
+
+    reportImport(summary: ImportSummary) {
+        const parts = [
+            summary.added > 0 ? `${summary.added} added` : '',
+            summary.overwritten.length > 0 ? `${summary.overwritten.length} overwritten` : '',
+            summary.renamed > 0 ? `${summary.renamed} renamed` : '',
+            summary.skipped > 0 ? `${summary.skipped} skipped` : '',
+        ].filter(Boolean);
+
+        new Notice(`Template import finished: ${parts.join(', ') || 'nothing imported'}`);
+
+        const overwritten = summary.overwritten.length;
+        this.showUndoNotice(`${overwritten} template${overwritten === 1 ? '' : 's'} overwritten by the import`, summary.overwritten);
+
+        if (summary.failed.length > 0) {
+            console.error('Templates that could not be imported:', summary.failed);
+            new Notice(`Could not import:\n${summary.failed.join('\n')}`, 10000);
+        }
+    }
+
+    // Template folders configured for the core Templates plugin and Templater, if any
+    async detectTemplateFolders(): Promise<string[]> {
+        const configDir = this.app.vault.configDir;
+        const sources: [string, string][] = [
+            [`${configDir}/templates.json`, 'folder'],
+            [`${configDir}/plugins/templater-obsidian/data.json`, 'templates_folder'],
+        ];
+
+        const folders: string[] = [];
+        for (const [path, key] of sources) {
+            try {
+                if (!(await this.app.vault.adapter.exists(path))) {
+                    continue;
+                }
+
+                const folder = JSON.parse(await this.app.vault.adapter.read(path))[key];
+                if (typeof folder === 'string' && folder.trim() && !folders.includes(normalizePath(folder))) {
+                    folders.push(normalizePath(folder));
+                }
+            } catch (error) {
+                console.error(`Failed to read ${path}:`, error);
+            }
+        }
+
+        return folders;
+    }
+
+    // Copies every note in `folder` into the templates folder as a template, converting Templater syntax on the way.
+    // The original files are only read.
+    async migrateTemplates(folder: TFolder, category: string): Promise<MigrationResult[]> {
+        const files: TFile[] = [];
+        Vault.recurseChildren(folder, file => {
+            if (file instanceof TFile && file.extension === 'md') {
+                files.push(file);
+            }
+        });
+        files.sort((a, b) => a.path.localeCompare(b.path));
+
+        const results: MigrationResult[] = [];
+        for (const file of files) {
+            const result: MigrationResult = { source: file.path, name: file.basename, saved: false, issues: [] };
+            results.push(result);
+
+            try {
+                const { content, issues } = convertTemplaterSyntax(await this.app.vault.read(file));
+                result.issues.push(...issues);
+
+                try {
+                    parseTemplate(content);
+                } catch (error) {
+                    if (!(error instanceof TemplateSyntaxError)) {
+                        throw error;
+                    }
+                    result.issues.push(error.message);
+                }
+
+                // Subfolders of the source folder become subcategories
+                const subfolder = file.parent && file.parent.path !== folder.path ? file.parent.path.slice(folder.path.length + 1) : '';
+                const templateCategory = [category, subfolder].filter(Boolean).join('/');
+
+                result.name = this.getAvailableTemplateName(file.basename, templateCategory);
+                if (result.name !== file.basename) {
+                    result.issues.push(`Saved as "${result.name}" because a template named "${file.basename}" already exists`);
+                }
+
+                result.saved = await this.saveTemplate({
+                    name: result.name,
+                    content: content.trim(),
+                    useNameAsCommand: true,
+                    category: templateCategory,
+                });
+                if (!result.saved) {
+                    result.issues.push('Could not be saved to the templates folder');
+                }
+            } catch (error) {
+                console.error(`Failed to import ${file.path}:`, error);
+                result.issues.push(`Could not be imported: ${error.message}`);
+            }
+        }
+
+        return results;
+    }
+
+    // Keeps the file content a save is about to replace; the newest revision comes first
+    recordTemplateRevision(template: Template, markdown: string) {
+        const key = this.getTemplateKey(template);
+        const revisions = this.settings.templateHistory[key] || [];
+        this.settings.templateHistory[key] = [{ savedAt: Date.now(), markdown }, ...revisions].slice(0, MAX_TEMPLATE_REVISIONS);
+    }
+
+    getTemplateRevisions(template: Template): TemplateRevision[] {
+        return this.settings.templateHistory[this.getTemplateKey(template)] || [];
+    }
+
+    // Restores an earlier version's content and settings; the template keeps its current name and category
+    async restoreTemplateRevision(template: Template, revision: TemplateRevision): Promise<boolean> {
+        const restored = this.parseTemplateFile(revision.markdown, template.name);
+        restored.name = template.name;
+        restored.category = template.category;
+
+        const triggerError = this.validateTemplateTriggers(restored.name, restored.aliases || [], restored.useNameAsCommand, template, template.category);
+        if (triggerError) {
+            new Notice(`Cannot restore this version: ${triggerError}`);
+            return false;
+        }
+
+        return this.saveTemplate({ ...restored, path: template.path }, template);
+    }
+
+    getUnmanagedTemplates(): Template[] {
+        return this.settings.templates.filter(template => template && template.unmanaged && template.path);
+    }
+
+    // The frontmatter adopting a file would add, without writing anything
+    describeAdoption(template: Template): string {
+        const serialized = this.serializeTemplate(template);
+        return serialized.slice(0, serialized.length - template.content.length).trimEnd();
+    }
+
+    // Adds the plugin's frontmatter to files the user chose to hand over to the plugin
+    async adoptTemplates(templates: Template[]): Promise<number> {
+        let adopted = 0;
+
+        for (const template of templates) {
+            const file = template.path ? this.app.vault.getAbstractFileByPath(template.path) : null;
+            if (!(file instanceof TFile)) {
+                continue;
+            }
+
+            try {
+                const content = await this.app.vault.read(file);
+                if (!this.hasTemplateMetadata(content)) {
+                    const current = this.parseTemplateFile(content, file.basename);
+                    await this.app.vault.modify(file, this.serializeTemplate(current));
+                }
+
+                delete template.unmanaged;
+                adopted++;
+            } catch (error) {
+                console.error(`Failed to adopt template file ${file.path}:`, error);
+                new Notice(`Failed to adopt ${file.path}`);
+            }
+        }
+
+        return adopted;
+    }
+
+    findTemplateByName(name: string, category: string = ''): Template | undefined {
+        const normalizedCategory = this.normalizeCategory(category);
+        return this.settings.templates.find(template => template && template.name === name && (template.category || '') === normalizedCategory);
+    }
+
+    getAvailableTemplateName(name: string, category: string = ''): string {
+        let candidate = name;
+        for (let suffix = 2; this.findTemplateByName(candidate, category); suffix++) {
+            candidate = `${name} ${suffix}`;
+        }
+        return candidate;
+    }
+
+    // File events replace template objects, so a template held by a dialog is looked up again by its path
+    findCurrentTemplate(template: Template): Template | undefined {
+        const templates = this.settings.templates;
+        return templates.includes(template) ? template : templates.find(t => !!template.path && t.path === template.path);
+    }
+
+    async deleteTemplate(template: Template): Promise<boolean> {
+        template = this.findCurrentTemplate(template) || template;
+        const index = this.settings.templates.indexOf(template);
+        if (index >= 0) {
+            this.settings.templates.splice(index, 1);
+        }
+
+        try {
+            const file = template.path ? this.app.vault.getAbstractFileByPath(template.path) : null;
+            if (file instanceof TFile) {
+                await this.app.fileManager.trashFile(file);
+            }
+
+            this.forgetTemplateData(template);
+            await this.saveSettingsData();
+
+            this.registerTemplateCommands();
+            return true;
+        } catch (error) {
+            if (index >= 0) {
+                this.settings.templates.splice(index, 0, template);
+            }
+
+            console.error(`Failed to delete template file "${template.path}":`, error);
+            new Notice(`Failed to delete template "${template.name}". Check the console for details.`);
+            return false;
+        }
+    }
+
+    // The template file as it is on disk, or the serialized template when it has no file yet
+    async readTemplateMarkdown(template: Template): Promise<string> {
+        const file = template.path ? this.app.vault.getAbstractFileByPath(template.path) : null;
+        return file instanceof TFile ? await this.app.vault.read(file) : this.serializeTemplate(template);
+    }
+
+    async snapshotTemplate(template: Template): Promise<TemplateSnapshot> {
+        const key = this.getTemplateKey(template);
+        return {
+            template,
+            index: this.settings.templates.indexOf(template),
+            markdown: await this.readTemplateMarkdown(template),
+            usage: this.settings.templateUsage[key],
+            revisions: this.settings.templateHistory[key],
+        };
+    }
+
+    async deleteTemplates(templates: Template[]): Promise<TemplateChange[]> {
+        const changes: TemplateChange[] = [];
+        for (const template of templates) {
+            const current = this.findCurrentTemplate(template);
+            if (!current) {
+                continue;
+            }
+
+            const before = await this.snapshotTemplate(current);
+            if (await this.deleteTemplate(current)) {
+                changes.push({ before, after: null });
+            }
+        }
+        return changes;
+    }
+
+    // Saves a changed copy of each template; templates for which change returns null are left as they are
+    async updateTemplates(templates: Template[], change: (template: Template) => Template | null): Promise<TemplateChange[]> {
+        const changes: TemplateChange[] = [];
+        for (const template of templates) {
+            const current = this.findCurrentTemplate(template);
+            const updated = current ? change(current) : null;
+            if (!current || !updated) {
+                continue;
+            }
+
+            const before = await this.snapshotTemplate(current);
+            if (await this.saveTemplate(updated, current)) {
+                changes.push({ before, after: updated });
+            }
+        }
+        return changes;
+    }
+
+    // Puts a template back as it was; fails if it has been deleted or recreated in the meantime
+    async restoreTemplateSnapshot(snapshot: TemplateSnapshot, changed: Template | null): Promise<boolean> {
+        const { template, markdown } = snapshot;
+        const templates = this.settings.templates;
+        const path = template.path || normalizePath(`${this.getCategoryFolderPath(template.category || '')}/${this.createSafeFileName(template.name)}.md`);
+
+        const current = changed ? this.findCurrentTemplate(changed) : undefined;
+        const index = current ? templates.indexOf(current) : -1;
+        if (changed ? index < 0 : this.app.vault.getAbstractFileByPath(path) || this.findTemplateByName(template.name, template.category)) {
+            return false;
+        }
+
+        try {
+            await this.ensureFolderExists(this.getCategoryFolderPath(template.category || ''));
+
+            // The list is updated before the files so the vault events find the template at its restored path
+            if (current) {
+                templates[index] = template;
+                this.moveTemplateData(current, template);
+            } else {
+                templates.splice(Math.min(Math.max(snapshot.index, 0), templates.length), 0, template);
+                const key = this.getTemplateKey(template);
+                if (snapshot.usage) {
+                    this.settings.templateUsage[key] = snapshot.usage;
+                }
+                if (snapshot.revisions) {
+                    this.settings.templateHistory[key] = snapshot.revisions;
+                }
+            }
+            await this.saveSettingsData();
+
+            const currentFile = current?.path ? this.app.vault.getAbstractFileByPath(current.path) : null;
+            if (currentFile instanceof TFile && currentFile.path !== path) {
+                await this.app.fileManager.renameFile(currentFile, path);
+            }
+
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                await this.app.vault.modify(file, markdown);
+            } else {
+                await this.app.vault.create(path, markdown);
+            }
+
+            this.registerTemplateCommands();
+            return true;
+        } catch (error) {
+            console.error(`Failed to restore template "${template.name}":`, error);
+            return false;
+        }
+    }
+
+    // Reverts a group of changes as one operation, newest first
+    async undoTemplateChanges(changes: TemplateChange[]): Promise<number> {
+        let restored = 0;
+        for (const change of changes.slice().reverse()) {
+            if (await this.restoreTemplateSnapshot(change.before, change.after)) {
+                restored++;
+            }
+        }
+        return restored;
+    }
+
+    // Shows a notice such as "Template deleted — Undo"; clicking Undo reverts all the changes
+    showUndoNotice(message: string, changes: TemplateChange[], onUndone?: () => void) {
+        if (changes.length === 0) {
+            return;
+        }
+
+        let undone = false;
+        const notice = new Notice(createFragment(fragment => {
+            fragment.appendText(`${message} — `);
+            const undoLink = fragment.createEl('a', { text: 'Undo', href: '#' });
+            undoLink.addEventListener('click', async (event) => {
+                event.preventDefault();
+                notice.hide();
+                if (undone) {
+                    return;
+                }
+                undone = true;
+
+                const restored = await this.undoTemplateChanges(changes);
+                const failed = changes.length - restored;
+                if (failed > 0) {
+                    new Notice(`Could not undo ${failed} of ${changes.length} change${changes.length === 1 ? '' : 's'}. The template${failed === 1 ? '' : 's'} may have been deleted or recreated in the meantime.`);
+                } else {
+                    new Notice('Undone');
+                }
+                onUndone?.();
+            });
+        }), UNDO_NOTICE_DURATION);
+    }
+
+    createTemplateFromFile(file: TFile, content: string): Template {
+        const template = this.parseTemplateFile(content, file.basename);
+        template.path = file.path;
+
+        if (!this.hasTemplateMetadata(content)) {
+            template.unmanaged = true;
+        }
+
+        const category = this.getCategoryFromPath(file.path);
+        if (category) {
+            template.category = category;
+        }
+
+        return template;
+    }
+
+    getCategoryFromPath(path: string): string {
+        const templatesPath = normalizePath(this.settings.templatesFolder);
+        const relativePath = path.startsWith(templatesPath + '/') ? path.substring(templatesPath.length + 1) : path;
+        const separatorIndex = relativePath.lastIndexOf('/');
+        return separatorIndex >= 0 ? relativePath.substring(0, separatorIndex) : '';
+    }
+
+    getCategoryFolderPath(category: string): string {
+        const templatesPath = normalizePath(this.settings.templatesFolder);
+        return category ? normalizePath(`${templatesPath}/${category}`) : templatesPath;
+    }
+
+    normalizeCategory(category: string): string {
+        return category
+            .split('/')
+            .map(segment => segment.trim().replace(/[\\:*?"<>|]/g, '_'))
+            .filter(segment => segment && segment !== '.' && segment !== '..')
+            .join('/');
+    }
+
+    getTemplateCategories(): string[] {
+        const categories = new Set<string>();
+        this.settings.templates.forEach(template => {
+            if (template.category) {
+                categories.add(template.category);
+            }
+        });
+        return Array.from(categories).sort((a, b) => a.localeCompare(b));
+    }
+
+    groupTemplatesByCategory(templates: Template[]): [string, Template[]][] {
+        const groups = new Map<string, Template[]>();
+        templates.forEach(template => {
+            const category = template.category || '';
+            const group = groups.get(category);
+            if (group) {
+                group.push(template);
+            } else {
+                groups.set(category, [template]);
+            }
+        });
+
+        return Array.from(groups.entries()).sort(([a], [b]) => {
+            if (!a) return -1;
+            if (!b) return 1;
+            return a.localeCompare(b);
+        });
+    }
+
+    attachCategorySuggestions(inputEl: HTMLInputElement) {
+        const listId = `quick-templates-categories-${Date.now()}`;
+        const datalist = inputEl.parentElement?.createEl('datalist', { attr: { id: listId } });
+        if (!datalist) {
+            return;
+        }
+
+        this.getTemplateCategories().forEach(category => {
+            datalist.createEl('option', { attr: { value: category } });
+        });
+        inputEl.setAttribute('list', listId);
+    }
+
+    getTemplateKey(template: Template): string {
+        return template.category ? `${template.category}/${template.name}` : template.name;
+    }
+
+    splitFrontmatter(text: string): { frontmatter: Record<string, unknown> | null; body: string } {
+        const normalized = text.replace(/\r\n?/g, '\n');
+        const match = normalized.match(FRONTMATTER_REGEX);
+        if (!match) {
+            return { frontmatter: null, body: normalized };
+        }
+
+        let frontmatter: unknown;
+        try {
+            frontmatter = match[1].trim() ? parseYaml(match[1]) : {};
+        } catch (error) {
+            console.error('Failed to parse frontmatter:', error);
+            return { frontmatter: null, body: normalized };
+        }
+
+        if (frontmatter === null || typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+            return { frontmatter: null, body: normalized };
+        }
+
+        return {
+            frontmatter: frontmatter as Record<string, unknown>,
+            body: normalized.substring(match[0].length),
+        };
+    }
+
+    // The first frontmatter block belongs to the template only if it carries plugin keys;
+    // otherwise it is note frontmatter and stays part of the template content.
+    hasTemplateMetadata(raw: string): boolean {
+        const { frontmatter } = this.splitFrontmatter(raw);
+        return !!frontmatter && TEMPLATE_METADATA_KEYS.some(key => key in frontmatter);
+    }
+
+    parseTemplateFile(raw: string, fallbackName: string): Template {
+        const { frontmatter, body } = this.splitFrontmatter(raw);
+
+        if (!frontmatter || !TEMPLATE_METADATA_KEYS.some(key => key in frontmatter)) {
+            return {
+                name: fallbackName,
+                content: raw.replace(/\r\n?/g, '\n').trim(),
+                useNameAsCommand: true,
+            };
+        }
+
+        const { name, useNameAsCommand, aliases, folder, filename, placement, heading, ...rest } = frontmatter;
+
+        const templateName = name != null ? String(name).trim() : '';
+
+        const template: Template = {
+            name: templateName || fallbackName,
+            content: body.trim(),
+            useNameAsCommand: useNameAsCommand !== false && useNameAsCommand !== 'false',
+        };
+
+        const aliasList = this.parseList(aliases);
+        if (aliasList.length > 0) {
+            template.aliases = aliasList;
+        }
+
+        if (typeof folder === 'string' && folder.trim()) {
+            template.folder = folder.trim();
+        }
+
+        if (typeof filename === 'string' && filename.trim()) {
+            template.filename = filename.trim();
+        }
+
+        if (typeof placement === 'string' && placement in PLACEMENT_LABELS) {
+            template.placement = placement as TemplatePlacementMode;
+        }
+
+        if (typeof heading === 'string' && heading.trim()) {
+            template.heading = heading.trim();
+        }
+
+        if (Object.keys(rest).length > 0) {
+            template.frontmatter = rest;
+        }
+
+        return template;
+    }
+
+    serializeTemplate(template: Template): string {
+        const frontmatter: Record<string, unknown> = {
+            name: template.name,
+            useNameAsCommand: template.useNameAsCommand,
+        };
+
+        if (template.aliases && template.aliases.length > 0) {
+            frontmatter.aliases = template.aliases;
+        }
+
+        if (template.folder) {
+            frontmatter.folder = template.folder;
+        }
+
+        if (template.filename) {
+            frontmatter.filename = template.filename;
+        }
+
+        if (template.placement) {
+            frontmatter.placement = template.placement;
+        }
+
+        if (template.heading) {
+            frontmatter.heading = template.heading;
+        }
+
+        Object.assign(frontmatter, template.frontmatter);
+
+        return [
+            '---',
+            stringifyYaml(frontmatter).trimEnd(),
+            '---',
+            '',
+            template.content
+        ].join('\n');
+    }
+
+    createSafeFileName(name: string): string {
+        return name
+            .replace(/[\\/:*?"<>|]/g, '_')
+            .replace(/\s+/g, '_')
+            .substring(0, 100);
+    }
+
+    async validateTemplatesFolder() {
+        try {
+            const templatesPath = normalizePath(this.settings.templatesFolder);
+
+            const folder = this.app.vault.getAbstractFileByPath(templatesPath);
+            if (!folder) {
+                await this.ensureTemplatesFolderExists();
+                return;
+            }
+
+            if (folder instanceof TFile) {
+                console.error(`Templates path ${templatesPath} is a file, not a folder`);
+                new Notice(`Templates path is a file, not a folder. Please check settings.`);
+                return;
+            }
+        } catch (error) {
+            console.error(`Error validating templates folder:`, error);
+        }
+    }
+}
+
+class SaveTemplateModal extends Modal {
+    plugin: QuickTemplatesPlugin;
+    templateContent: string;
+    templateNameInput: HTMLInputElement;
+    categoryInput: HTMLInputElement;
+    aliasesInput: HTMLInputElement;
+    useNameAsCommand: boolean = true;
+
+    constructor(app: App, plugin: QuickTemplatesPlugin, templateContent: string) {
+        super(app);
+        this.plugin = plugin;
+        this.templateContent = templateContent;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Save as Template' });
+
+        // Template name
+        new Setting(contentEl)
+            .setName('Template name')
+            .setDesc('Enter a name for this template. The template will be available as a command with this name.')
+            .addText(text => {
+                this.templateNameInput = text.inputEl;
+                text.setPlaceholder('Template name')
+                    .setValue('')
+                    .onChange(value => {
+                    });
+            });
+
+        // Category
+        new Setting(contentEl)
+            .setName('Category')
+            .setDesc('Pick an existing category or type a new one. Use "/" for nested categories; leave empty for none.')
+            .addText(text => {
+                this.categoryInput = text.inputEl;
+                text.setPlaceholder('Category')
+                    .setValue('');
+                this.plugin.attachCategorySuggestions(text.inputEl);
+            });
+
+        // Aliases
+        new Setting(contentEl)
+            .setName('Aliases')
+            .setDesc(`Short triggers for autocomplete, separated by commas (e.g. "mtg, meeting" for ${this.plugin.settings.triggerPrefix}mtg and ${this.plugin.settings.triggerPrefix}meeting).`)
+            .addText(text => {
+                this.aliasesInput = text.inputEl;
+                text.setPlaceholder('mtg, meeting')
+                    .setValue('');
+            });
+
+        // Use name as command
+        new Setting(contentEl)
+            .setName('Trigger with template name')
+            .setDesc(`Also insert this template by typing ${this.plugin.settings.triggerPrefix} followed by its full name.`)
+            .addToggle(toggle => {
+                toggle.setValue(this.useNameAsCommand)
+                    .onChange(value => {
+                        this.useNameAsCommand = value;
+                    });
+            });
+
+        // Save button
+        new Setting(contentEl)
+            .addButton(button => {
+                button.setButtonText('Save')
+                    .setCta()
+                    .onClick(async () => {
+                        const templateName = this.templateNameInput.value.trim();
+                        if (!templateName) {
+                            new Notice('Template name is required');
+                            return;
+                        }
+
+                        await this.saveTemplateToSettings(templateName, this.aliasesInput.value, this.useNameAsCommand, this.categoryInput.value);
+                    });
+            })
+            .addButton(button => {
+                button.setButtonText('Cancel')
+                    .onClick(() => {
+                        this.close();
+                    });
+            });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    async saveTemplateToSettings(name: string, cmd: string, useNameAsCmd: boolean, category: string) {
+        const aliases = this.plugin.parseList(cmd);
+        const existingTemplate = this.plugin.findTemplateByName(name, category);
+
+        const triggerError = this.plugin.validateTemplateTriggers(name, aliases, useNameAsCmd, existingTemplate, category);
+        if (triggerError) {
+            new Notice(triggerError);
+            return;
+        }
+
+        if (existingTemplate) {
+            const confirmModal = new ConfirmModal(
+                this.app,
+                `Template "${this.plugin.getTemplateKey(existingTemplate)}" already exists. Overwrite?`,
+                async (confirmed) => {
+                    if (confirmed) {
+                        const changes = await this.plugin.overwriteTemplate(existingTemplate, {
+                            name: name,
+                            content: this.templateContent,
+                            useNameAsCommand: useNameAsCmd,
+                            aliases: aliases,
+                            category: category,
+                        });
+                        if (changes.length > 0) {
+                            this.plugin.showUndoNotice(`Template "${name}" overwritten`, changes);
+                            this.close();
+                        }
+                    }
+                }
+            ).open();
+        } else {
+            const saved = await this.plugin.saveTemplate({
+                name: name,
+                content: this.templateContent,
+                useNameAsCommand: useNameAsCmd,
+                aliases: aliases,
+                category: category,
+            });
+            if (saved) {
+                new Notice(`Template "${name}" saved`);
+                this.close();
+            }
+        }
+    }
+}
+
+class InsertTemplateModal extends FuzzySuggestModal<Template> {
+    plugin: QuickTemplatesPlugin;
+    editor: Editor;
+    preview: TemplatePreview;
+    suggestionTemplates = new WeakMap<Element, Template>();
+    selectionObserver: MutationObserver;
+
+    constructor(app: App, plugin: QuickTemplatesPlugin, editor: Editor) {
+        super(app);
+        this.plugin = plugin;
+        this.editor = editor;
+
+        this.setPlaceholder('Search templates by name, alias, tag or content...');
+        this.setInstructions([
+            { command: '↑↓', purpose: 'to navigate' },
+            { command: '↵', purpose: 'to insert' },
+            { command: 'shift ↵', purpose: 'to choose where to insert' },
+            { command: 'esc', purpose: 'to dismiss' },
+        ]);
+        this.emptyStateText = 'No matching templates.';
+
+        this.scope.register(['Shift'], 'Enter', (evt: KeyboardEvent) => {
+            this.selectActiveSuggestion(evt);
+            return false;
+        });
+    }
+
+    onOpen() {
+        super.onOpen();
+
+        // Follows the highlighted suggestion, whether it was reached with the keyboard or the mouse
+        this.preview = new TemplatePreview(this.plugin, this.modalEl);
+        this.preview.load();
+        this.selectionObserver = new MutationObserver(() => this.updatePreview());
+        this.selectionObserver.observe(this.resultContainerEl, { subtree: true, childList: true, attributes: true, attributeFilter: ['class'] });
+        this.updatePreview();
+
+        if (this.plugin.settings.templates.length > 0) {
+            return;
+        }
+
+        this.emptyStateText = 'No templates found. Create a template first.';
+
+        const checkButton = this.modalEl.createEl('button', {
+            text: 'Check Templates Folder',
+            cls: 'mod-cta template-check-button'
+        });
+
+        checkButton.addEventListener('click', async () => {
+            const templatesPath = normalizePath(this.plugin.settings.templatesFolder);
+
+            const folder = this.app.vault.getAbstractFileByPath(templatesPath);
+
+            if (folder) {
+                new Notice(`Checking templates folder at ${templatesPath}...`);
+                await this.plugin.loadTemplatesFromFiles();
+
+                if (this.plugin.settings.templates.length > 0) {
+                    new Notice(`Found ${this.plugin.settings.templates.length} templates.`);
+                    this.close();
+                    new InsertTemplateModal(this.app, this.plugin, this.editor).open();
+                } else {
+                    new Notice(`No templates found in ${templatesPath}. Please create a template first using "Save selection as template" command.`);
+                }
+            } else {
+                await this.plugin.ensureTemplatesFolderExists();
+                new Notice(`Templates folder created at ${templatesPath}. Please create templates first.`);
+            }
+        });
+    }
+
+    getItems(): Template[] {
+        return this.plugin.settings.templates.filter(Boolean);
+    }
+
+    getItemText(template: Template): string {
+        return this.plugin.getTemplateKey(template);
+    }
+
+    getSuggestions(query: string): TemplateMatch[] {
+        return this.plugin.searchTemplates(query);
+    }
+
+    renderSuggestion(match: TemplateMatch, el: HTMLElement): void {
+        this.plugin.renderTemplateMatch(match, el);
+        this.suggestionTemplates.set(el, match.item);
+    }
+
+    updatePreview() {
+        const selected = this.resultContainerEl.querySelector('.suggestion-item.is-selected');
+        const template = selected ? this.suggestionTemplates.get(selected) : undefined;
+        this.preview.show(template || null);
+    }
+
+    onClose() {
+        super.onClose();
+
+        this.selectionObserver.disconnect();
+        this.preview.unload();
+    }
+
+    onChooseItem(template: Template, evt: MouseEvent | KeyboardEvent): void {
+        if (evt.shiftKey) {
+            new TemplatePlacementModal(this.app, this.plugin, this.editor, template).open();
+            return;
+        }
+
+        this.plugin.insertTemplate(this.editor, template);
+    }
+}
+
+class TemplatePlacementModal extends FuzzySuggestModal<TemplatePlacement> {
+    plugin: QuickTemplatesPlugin;
+    editor: Editor;
+    template: Template;
+
+    constructor(app: App, plugin: QuickTemplatesPlugin, editor: Editor, template: Template) {
+        super(app);
+        this.plugin = plugin;
+        this.editor = editor;
+        this.template = template;
+
+        this.setPlaceholder(`Insert "${template.name}"...`);
+        this.setInstructions([
+            { command: '↑↓', purpose: 'to navigate' },
+            { command: '↵', purpose: 'to insert here' },
+            { command: 'esc', purpose: 'to dismiss' },
+        ]);
+    }
+
+    getItems(): TemplatePlacement[] {
+        const placements: TemplatePlacement[] = [
+            { mode: 'selection' },
+            { mode: 'cursor' },
+            { mode: 'top' },
+            { mode: 'bottom' },
+        ];
+
+        const headings = this.plugin.getNoteHeadings(this.editor).map(heading => heading.text);
+        if (this.template.heading) {
+            const title = this.template.heading.replace(/^#{1,6}\s+/, '');
+            if (!headings.some(heading => heading.toLowerCase() === title.toLowerCase())) {
+                placements.push({ mode: 'heading', heading: this.template.heading });
+            }
+        }
+        headings.forEach(heading => placements.push({ mode: 'heading', heading }));
+
+        return placements;
+    }
+
+    getItemText(placement: TemplatePlacement): string {
+        return placement.mode === 'heading'
+            ? `${PLACEMENT_LABELS.heading} "${placement.heading}"`
+            : PLACEMENT_LABELS[placement.mode];
+    }
+
+    onChooseItem(placement: TemplatePlacement, evt: MouseEvent | KeyboardEvent): void {
+        this.plugin.insertTemplate(this.editor, this.template, undefined, undefined, placement);
+    }
+}
+
+class NewNoteFromTemplateModal extends FuzzySuggestModal<Template> {
+    plugin: QuickTemplatesPlugin;
+    folder?: TFolder;
+
+    constructor(app: App, plugin: QuickTemplatesPlugin, folder?: TFolder) {
+        super(app);
+        this.plugin = plugin;
+        this.folder = folder;
+
+        this.setPlaceholder(folder ? `New note in ${folder.isRoot() ? 'vault root' : folder.path} from template...` : 'New note from template...');
+        this.setInstructions([
+            { command: '↑↓', purpose: 'to navigate' },
+            { command: '↵', purpose: 'to create note' },
+            { command: 'esc', purpose: 'to dismiss' },
+        ]);
+        this.emptyStateText = this.plugin.settings.templates.length > 0
+            ? 'No matching templates.'
+            : 'No templates found. Create a template first.';
+    }
+
+    getItems(): Template[] {
+        return this.plugin.settings.templates.filter(Boolean);
+    }
+
+    getItemText(template: Template): string {
+        return this.plugin.getTemplateKey(template);
+    }
+
+    getSuggestions(query: string): TemplateMatch[] {
+        return this.plugin.searchTemplates(query);
+    }
+
+    renderSuggestion(match: TemplateMatch, el: HTMLElement): void {
+        this.plugin.renderTemplateMatch(match, el);
+    }
+
+    onChooseItem(template: Template, evt: MouseEvent | KeyboardEvent): void {
+        this.plugin.createNoteFromTemplate(template, this.folder);
+    }
+}
+
+class PeriodicNoteDateModal extends Modal {
+    plugin: QuickTemplatesPlugin;
+    type: PeriodicNoteType = 'daily';
+    date: string = moment().format('YYYY-MM-DD');
+
+    constructor(app: App, plugin: QuickTemplatesPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Open periodic note' });
+
+        new Setting(contentEl)
+            .setName('Note')
+            .addDropdown(dropdown => {
+                PERIODIC_NOTE_TYPES.forEach(type => {
+                    dropdown.addOption(type, `${type.charAt(0).toUpperCase()}${type.slice(1)} note`);
+                });
+                dropdown.setValue(this.type)
+                    .onChange(value => {
+                        this.type = value as PeriodicNoteType;
+                    });
+            });
+
+        new Setting(contentEl)
+            .setName('Date')
+            .setDesc('Weekly and monthly notes open for the week or month containing this date.')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.date)
+                    .onChange(value => {
+                        this.date = value;
+                    });
+
+                text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+                    if (event.key === 'Enter') {
+                        event.preventDefault();
+                        this.submit();
+                    }
+                });
+            });
+
+        new Setting(contentEl)
+            .addButton(button => {
+                button.setButtonText('Open')
+                    .setCta()
+                    .onClick(() => {
+                        this.submit();
+                    });
+            });
+    }
+
+    submit() {
+        const date = moment(this.date, 'YYYY-MM-DD', true);
+        if (!date.isValid()) {
+            new Notice('Please enter a valid date');
+            return;
+        }
+
+        this.close();
+        this.plugin.openPeriodicNote(this.type, date);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Rendered preview of the highlighted template, shown inside the modal that owns it
+class TemplatePreview extends Component {
+    plugin: QuickTemplatesPlugin;
+    containerEl: HTMLElement;
+    template: Template | null = null;
+    renderComponent: Component | null = null;
+
+    constructor(plugin: QuickTemplatesPlugin, parentEl: HTMLElement) {
+        super();
+        this.plugin = plugin;
+        this.containerEl = parentEl.createEl('div', {
+            cls: 'template-preview-pane',
+            attr: { 'aria-live': 'polite', 'aria-label': 'Template preview' }
+        });
+    }
+
+    show(template: Template | null) {
+        if (template === this.template) {
+            return;
+        }
+        this.template = template;
+
+        if (this.renderComponent) {
+            this.removeChild(this.renderComponent);
+            this.renderComponent = null;
+        }
+        this.containerEl.empty();
+
+        if (!template) {
+            return;
+        }
+
+        // Each render gets its own element, so a slow render can't land in the preview of the next template
+        const targetEl = this.containerEl.createEl('div', { cls: 'markdown-rendered' });
+        let markdown: string;
+        try {
+            markdown = this.plugin.buildTemplatePreview(template);
+        } catch (error) {
+            targetEl.createEl('div', { text: error.message, cls: 'template-preview-error' });
+            return;
+        }
+
+        this.renderComponent = this.addChild(new Component());
+        MarkdownRenderer.render(this.plugin.app, markdown, targetEl, template.path || '', this.renderComponent)
+            .catch(error => console.error('Failed to render template preview:', error));
+    }
+
+    onunload() {
+        this.containerEl.remove();
+    }
+}
+
+class ExportTemplatesModal extends Modal {
+    plugin: QuickTemplatesPlugin;
+    selected = new Set<Template>();
+    fileName: string = `Templates ${moment().format('YYYY-MM-DD')}`;
+
+    constructor(app: App, plugin: QuickTemplatesPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Export Templates' });
+
+        const templates = this.plugin.settings.templates.filter(Boolean);
+        if (templates.length === 0) {
+            contentEl.createEl('p', { text: 'No templates found. Create a template first.' });
+            return;
+        }
+
+        templates.forEach(template => this.selected.add(template));
+
+        const templateList = contentEl.createEl('div', { cls: 'template-list template-export-list' });
+
+        this.plugin.groupTemplatesByCategory(templates).forEach(([category, group]) => {
+            const toggles: ToggleComponent[] = [];
+
+            new Setting(templateList)
+                .setName(category || 'Uncategorized')
+                .setHeading()
+                .addToggle(toggle => {
+                    toggle.setTooltip('Select the whole category')
+                        .setValue(true)
+                        .onChange(value => {
+                            toggles.forEach(templateToggle => templateToggle.setValue(value));
+                        });
+                });
+
+            group.forEach(template => {
+                new Setting(templateList)
+                    .setName(template.name)
+                    .addToggle(toggle => {
+                        toggles.push(toggle);
+                        toggle.setValue(true)
+                            .onChange(value => {
+                                if (value) {
+                                    this.selected.add(template);
+                                } else {
+                                    this.selected.delete(template);
+                                }
+                            });
+                    });
+            });
+        });
+
+        new Setting(contentEl)
+            .setName('File name')
+            .setDesc('The pack is saved as a JSON file in the root of your vault.')
+            .addText(text => {
+                text.setValue(this.fileName)
+                    .onChange(value => {
+                        this.fileName = value;
+                    });
+            });
+
+        new Setting(contentEl)
+            .addButton(button => {
+                button.setButtonText('Export')
+                    .setCta()
+                    .onClick(async () => {
+                        const selected = templates.filter(template => this.selected.has(template));
+                        if (selected.length === 0) {
+                            new Notice('Select at least one template to export');
+                            return;
+                        }
+
+                        if (await this.plugin.exportTemplates(selected, this.fileName)) {
+                            this.close();
+                        }
+                    });
+            })
+            .addButton(button => {
+                button.setButtonText('Cancel')
+                    .onClick(() => {
+                        this.close();
+                    });
+            });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+class ImportTemplatePackModal extends FuzzySuggestModal<TFile> {
+    plugin: QuickTemplatesPlugin;
+
+    constructor(app: App, plugin: QuickTemplatesPlugin) {
+        super(app);
+        this.plugin = plugin;
+
+        this.setPlaceholder('Choose a template pack to import...');
+        this.emptyStateText = 'No JSON files found in your vault.';
+    }
 
-            const files = this.app.vault.getFiles().filter(file =>
-                file.path.startsWith(templatesPath + '/') &&
-                file.extension === 'md'
-            );
+    getItems(): TFile[] {
+        return this.app.vault.getFiles()
+            .filter(file => file.extension === 'json')
+            .sort((a, b) => b.stat.mtime - a.stat.mtime);
+    }
 
-            for (const file of files) {
-                try {
-                    const content = await this.app.vault.read(file);
+    getItemText(file: TFile): string {
+        return file.path;
+    }
 
-                    if (content.trim() && !content.match(/^---\n([\s\S]*?)\n---\n/)) {
-                        const fileName = file.basename;
-                        const updatedContent = [
-                            '---',
-                            `name: ${fileName}`,
-                            'useNameAsCommand: true',
-                            '---',
-                            '',
-                            content.trim()
-                        ].join('\n');
-
-                        await this.app.vault.modify(file, updatedContent);
-                    }
-                } catch (error) {
-                    console.error(`Error validating file ${file.path}:`, error);
-                }
-            }
-        } catch (error) {
-            console.error(`Error validating templates folder:`, error);
-        }
+    onChooseItem(file: TFile, evt: MouseEvent | KeyboardEvent): void {
+        this.plugin.importTemplatePack(file);
     }
 }
 
-class SaveTemplateModal extends Modal {
+class ImportConflictModal extends Modal {
     plugin: QuickTemplatesPlugin;
-    templateContent: string;
-    templateNameInput: HTMLInputElement;
+    conflicts: Template[];
+    resolutions = new Map<Template, ImportResolution>();
+    onSubmit: (resolutions: Map<Template, ImportResolution>) => void;
 
-    constructor(app: App, plugin: QuickTemplatesPlugin, templateContent: string) {
+    constructor(app: App, plugin: QuickTemplatesPlugin, conflicts: Template[], onSubmit: (resolutions: Map<Template, ImportResolution>) => void) {
         super(app);
         this.plugin = plugin;
-        this.templateContent = templateContent;
+        this.conflicts = conflicts;
+        this.onSubmit = onSubmit;
+        conflicts.forEach(template => this.resolutions.set(template, 'skip'));
     }
 
     onOpen() {
         const { contentEl } = this;
-        contentEl.createEl('h2', { text: 'Save as Template' });
+        contentEl.createEl('h2', { text: 'Import Templates' });
 
-        // Template name
-        new Setting(contentEl)
-            .setName('Template name')
-            .setDesc('Enter a name for this template. The template will be available as a command with this name.')
-            .addText(text => {
-                this.templateNameInput = text.inputEl;
-                text.setPlaceholder('Template name')
-                    .setValue('')
-                    .onChange(value => {
-                    });
-            });
+        contentEl.createEl('p', {
+            text: `${this.conflicts.length} template${this.conflicts.length === 1 ? ' has' : 's have'} the same name as an existing template. Choose what to do with each; all other templates are imported as they are.`
+        });
 
-        setTimeout(() => {
-            const existingCustomCommandSetting = contentEl.querySelector('.custom-command-setting');
-            if (existingCustomCommandSetting) {
-                existingCustomCommandSetting.remove();
-            }
-        }, 0);
+        const addOptions = (dropdown: DropdownComponent) => dropdown
+            .addOption('skip', 'Skip')
+            .addOption('overwrite', 'Overwrite')
+            .addOption('rename', 'Import with a new name');
+
+        const dropdowns: DropdownComponent[] = [];
+
+        if (this.conflicts.length > 1) {
+            new Setting(contentEl)
+                .setName('All conflicts')
+                .addDropdown(dropdown => {
+                    addOptions(dropdown)
+                        .setValue('skip')
+                        .onChange(value => {
+                            dropdowns.forEach(other => other.setValue(value));
+                            this.conflicts.forEach(template => this.resolutions.set(template, value as ImportResolution));
+                        });
+                });
+        }
+
+        const conflictList = contentEl.createEl('div', { cls: 'template-list' });
+        this.conflicts.forEach(template => {
+            const category = template.category ? ` in ${template.category}` : '';
+            new Setting(conflictList)
+                .setName(template.name)
+                .setDesc(`Imported template${category}; "Import with a new name" saves it as "${this.plugin.getAvailableTemplateName(template.name, template.category)}".`)
+                .addDropdown(dropdown => {
+                    dropdowns.push(dropdown);
+                    addOptions(dropdown)
+                        .setValue('skip')
+                        .onChange(value => {
+                            this.resolutions.set(template, value as ImportResolution);
+                        });
+                });
+        });
 
-        // Save button
         new Setting(contentEl)
             .addButton(button => {
-                button.setButtonText('Save')
+                button.setButtonText('Import')
                     .setCta()
-                    .onClick(async () => {
-                        const templateName = this.templateNameInput.value.trim();
-                        if (!templateName) {
-                            new Notice('Template name is required');
-                            return;
-                        }
-
-                        // always use the template name as the command
-                        await this.saveTemplateToSettings(templateName, '', true);
+                    .onClick(() => {
+                        this.close();
+                        this.onSubmit(this.resolutions);
                     });
             })
             .addButton(button => {
@@ -595,137 +3816,194 @@ class SaveTemplateModal extends Modal {
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
-
-        this.plugin.clearAllTooltips();
-    }
-
-    async saveTemplateToSettings(name: string, cmd: string, useNameAsCmd: boolean) {
-        const existingTemplateIndex = this.plugin.settings.templates.findIndex((t: Template) => t.name === name);
-        if (existingTemplateIndex >= 0) {
-            const confirmModal = new ConfirmModal(
-                this.app,
-                `Template "${name}" already exists. Overwrite?`,
-                async (confirmed) => {
-                    if (confirmed) {
-                        this.plugin.settings.templates[existingTemplateIndex] = {
-                            name: name,
-                            content: this.templateContent,
-                            useNameAsCommand: true,
-                        };
-                        await this.plugin.saveSettings();
-                        new Notice(`Template "${name}" updated`);
-                        this.close();
-                    }
-                }
-            ).open();
-        } else {
-            this.plugin.settings.templates.push({
-                name: name,
-                content: this.templateContent,
-                useNameAsCommand: true,
-            });
-            await this.plugin.saveSettings();
-            new Notice(`Template "${name}" saved`);
-            this.close();
-        }
     }
 }
 
-class InsertTemplateModal extends Modal {
+class MigrateTemplatesModal extends Modal {
     plugin: QuickTemplatesPlugin;
-    editor: Editor;
+    folderInput: HTMLInputElement;
+    categoryInput: HTMLInputElement;
 
-    constructor(app: App, plugin: QuickTemplatesPlugin, editor: Editor) {
+    constructor(app: App, plugin: QuickTemplatesPlugin) {
         super(app);
         this.plugin = plugin;
-        this.editor = editor;
     }
 
-    onOpen() {
+    async onOpen() {
         const { contentEl } = this;
-        contentEl.createEl('h2', { text: 'Insert Template' });
+        contentEl.createEl('h2', { text: 'Import from Templates or Templater' });
 
-        if (this.plugin.settings.templates.length === 0) {
-            contentEl.createEl('p', { text: 'No templates found. Create a template first.' });
+        contentEl.createEl('p', {
+            text: 'Copies every note in a folder into your templates folder as a template. Templater expressions with an equivalent here are converted; the original files are not changed.'
+        });
 
-            const checkButton = contentEl.createEl('button', {
-                text: 'Check Templates Folder',
-                cls: 'mod-cta'
+        const folderSetting = new Setting(contentEl)
+            .setName('Folder to import')
+            .addText(text => {
+                this.folderInput = text.inputEl;
+                text.setPlaceholder('Templates');
             });
 
-            checkButton.addEventListener('click', async () => {
-                const templatesPath = normalizePath(this.plugin.settings.templatesFolder);
-
-                const folder = this.app.vault.getAbstractFileByPath(templatesPath);
+        const listId = `quick-templates-folders-${Date.now()}`;
+        const datalist = this.folderInput.parentElement?.createEl('datalist', { attr: { id: listId } });
+        this.app.vault.getAllFolders().forEach(folder => {
+            datalist?.createEl('option', { attr: { value: folder.path } });
+        });
+        this.folderInput.setAttribute('list', listId);
 
-                if (folder) {
-                    new Notice(`Checking templates folder at ${templatesPath}...`);
-                    await this.plugin.loadTemplatesFromFiles();
+        new Setting(contentEl)
+            .setName('Category')
+            .setDesc('Imported templates are put in this category; subfolders become subcategories. Leave empty for none.')
+            .addText(text => {
+                this.categoryInput = text.inputEl;
+                text.setPlaceholder('Category');
+                this.plugin.attachCategorySuggestions(text.inputEl);
+            });
 
-                    if (this.plugin.settings.templates.length > 0) {
-                        new Notice(`Found ${this.plugin.settings.templates.length} templates.`);
+        new Setting(contentEl)
+            .addButton(button => {
+                button.setButtonText('Import')
+                    .setCta()
+                    .onClick(async () => {
+                        await this.migrate();
+                    });
+            })
+            .addButton(button => {
+                button.setButtonText('Cancel')
+                    .onClick(() => {
                         this.close();
-                        new InsertTemplateModal(this.app, this.plugin, this.editor).open();
-                    } else {
-                        new Notice(`No templates found in ${templatesPath}.`);
-                        contentEl.empty();
-                        contentEl.createEl('h2', { text: 'Insert Template' });
-                        contentEl.createEl('p', { text: `No templates found in folder ${templatesPath}.` });
-                        contentEl.createEl('p', { text: 'Please create a template first using "Save selection as template" command.' });
-                    }
-                } else {
-                    await this.plugin.ensureTemplatesFolderExists();
-                    new Notice(`Templates folder created at ${templatesPath}. Please create templates first.`);
-                }
+                    });
             });
 
+        const detected = await this.plugin.detectTemplateFolders();
+        if (detected.length > 0) {
+            folderSetting.setDesc(`Template folders set up in Templates or Templater: ${detected.join(', ')}`);
+            if (!this.folderInput.value) {
+                this.folderInput.value = detected[0];
+            }
+        }
+    }
+
+    async migrate() {
+        const folderPath = normalizePath(this.folderInput.value.trim() || '/');
+        const folder = this.app.vault.getAbstractFileByPath(folderPath);
+        if (!(folder instanceof TFolder)) {
+            new Notice(`Folder "${folderPath}" not found`);
+            return;
+        }
+
+        const templatesPath = normalizePath(this.plugin.settings.templatesFolder);
+        if (folder.isRoot() || folder.path === templatesPath || folder.path.startsWith(templatesPath + '/') || templatesPath.startsWith(folder.path + '/')) {
+            new Notice('Choose a folder that is neither the templates folder nor contains it');
             return;
         }
 
-        const templateList = contentEl.createEl('div', { cls: 'template-list' });
+        this.close();
+        const results = await this.plugin.migrateTemplates(folder, this.plugin.normalizeCategory(this.categoryInput.value));
+        new MigrationReportModal(this.app, folder.path, results).open();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
 
-        this.plugin.settings.templates.forEach(template => {
-            const templateItem = templateList.createEl('div', { cls: 'template-item' });
+class AdoptionReportModal extends Modal {
+    plugin: QuickTemplatesPlugin;
+    templates: Template[];
+    onAdopt: () => void;
 
-            const nameEl = templateItem.createEl('div', { text: template.name, cls: 'template-name' });
+    constructor(app: App, plugin: QuickTemplatesPlugin, templates: Template[], onAdopt: () => void) {
+        super(app);
+        this.plugin = plugin;
+        this.templates = templates;
+        this.onAdopt = onAdopt;
+    }
 
-            const commandInfo = template.name;
-            const commandEl = templateItem.createEl('div', { text: `!!${commandInfo}`, cls: 'template-command' });
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Adopt Unmanaged Files' });
 
-            templateItem.addEventListener('click', () => {
-                this.plugin.insertTemplateContent(this.editor, template.content);
-                this.close();
-            });
+        contentEl.createEl('p', {
+            text: `Adopting would add this frontmatter to the start of ${this.templates.length} file${this.templates.length === 1 ? '' : 's'}. Nothing has been changed yet.`
+        });
 
-            templateItem.addEventListener('mouseenter', () => {
-                document.querySelectorAll('.template-tooltip').forEach(element => element.remove());
+        const fileList = contentEl.createEl('div', { cls: 'template-list' });
+        this.templates.forEach(template => {
+            const item = fileList.createEl('div', { cls: 'template-item template-report-item' });
+            const infoEl = item.createEl('div', { cls: 'template-info' });
+            infoEl.createEl('div', { text: template.path || template.name, cls: 'template-name' });
+            infoEl.createEl('pre', { text: this.plugin.describeAdoption(template), cls: 'template-adoption-diff' });
+        });
 
-                const tooltip = document.createElement('div');
-                tooltip.classList.add('template-tooltip', 'tooltip-positioned');
+        new Setting(contentEl)
+            .addButton(button => {
+                button.setButtonText('Adopt all')
+                    .setCta()
+                    .onClick(async () => {
+                        const adopted = await this.plugin.adoptTemplates(this.templates);
+                        new Notice(`Adopted ${adopted} file${adopted === 1 ? '' : 's'}`);
+                        this.close();
+                        this.onAdopt();
+                    });
+            })
+            .addButton(button => {
+                button.setButtonText('Close')
+                    .onClick(() => {
+                        this.close();
+                    });
+            });
+    }
 
-                tooltip.textContent = template.content.length > 100
-                    ? template.content.substring(0, 100) + '...'
-                    : template.content;
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
 
-                document.body.appendChild(tooltip);
+class MigrationReportModal extends Modal {
+    folderPath: string;
+    results: MigrationResult[];
 
-                const rect = templateItem.getBoundingClientRect();
-                tooltip.style.left = `${rect.right + 10}px`;
-                tooltip.style.top = `${rect.top}px`;
+    constructor(app: App, folderPath: string, results: MigrationResult[]) {
+        super(app);
+        this.folderPath = folderPath;
+        this.results = results;
+    }
 
-                templateItem.dataset.tooltipId = Date.now().toString();
-                tooltip.dataset.tooltipId = templateItem.dataset.tooltipId;
-            });
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Import Report' });
+
+        const saved = this.results.filter(result => result.saved).length;
+        const attention = this.results.filter(result => result.issues.length > 0).length;
+        contentEl.createEl('p', {
+            text: this.results.length === 0
+                ? `No notes found in ${this.folderPath}.`
+                : `Imported ${saved} of ${this.results.length} notes from ${this.folderPath}. ${attention > 0 ? `${attention} need${attention === 1 ? 's' : ''} a look.` : 'Everything was converted.'}`
+        });
 
-            templateItem.addEventListener('mouseleave', () => {
-                this.plugin.clearAllTooltips();
+        const resultList = contentEl.createEl('div', { cls: 'template-list' });
+        // Files that need attention come first
+        this.results
+            .slice()
+            .sort((a, b) => Number(b.issues.length > 0) - Number(a.issues.length > 0))
+            .forEach(result => {
+                const item = resultList.createEl('div', { cls: 'template-item template-report-item' });
+                const infoEl = item.createEl('div', { cls: 'template-info' });
+                infoEl.createEl('div', { text: result.saved ? result.name : `${result.name} (not imported)`, cls: 'template-name' });
+                infoEl.createEl('div', { text: result.source, cls: 'template-command template-command-muted' });
+
+                if (result.issues.length > 0) {
+                    const issueList = infoEl.createEl('ul', { cls: 'template-report-issues' });
+                    result.issues.forEach(issue => issueList.createEl('li', { text: issue }));
+                }
             });
-        });
 
-        // Cancel button
         new Setting(contentEl)
             .addButton(button => {
-                button.setButtonText('Cancel')
+                button.setButtonText('Close')
                     .onClick(() => {
                         this.close();
                     });
@@ -735,17 +4013,23 @@ class InsertTemplateModal extends Modal {
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
-
-        this.plugin.clearAllTooltips();
     }
 }
 
+type ManageTemplatesView = 'category' | 'most-used' | 'never-used';
+
 class ManageTemplatesModal extends Modal {
     plugin: QuickTemplatesPlugin;
+    view: ManageTemplatesView;
+    preview: TemplatePreview | null = null;
+    // Paths of the selected templates; file events replace the template objects themselves
+    selected = new Set<string>();
+    bulkActionsEl: HTMLElement;
 
-    constructor(app: App, plugin: QuickTemplatesPlugin) {
+    constructor(app: App, plugin: QuickTemplatesPlugin, view: ManageTemplatesView = 'category') {
         super(app);
         this.plugin = plugin;
+        this.view = view;
     }
 
     onOpen() {
@@ -757,56 +4041,119 @@ class ManageTemplatesModal extends Modal {
             return;
         }
 
+        this.selected.forEach(key => {
+            if (!this.plugin.settings.templates.some(template => this.getSelectionKey(template) === key)) {
+                this.selected.delete(key);
+            }
+        });
+
+        // View selector
+        new Setting(contentEl)
+            .setName('Show')
+            .addDropdown(dropdown => {
+                dropdown.addOption('category', 'By category')
+                    .addOption('most-used', 'Most used')
+                    .addOption('never-used', 'Never used')
+                    .setValue(this.view)
+                    .onChange((value: ManageTemplatesView) => {
+                        this.view = value;
+                        this.refresh();
+                    });
+            });
+
+        const groups = this.getTemplateGroups();
+        const visible = groups.flatMap(([, templates]) => templates);
+
+        // Bulk actions for the selected templates
+        this.bulkActionsEl = contentEl.createEl('div', { cls: 'template-bulk-actions' });
+        this.renderBulkActions(visible);
+
         const templateList = contentEl.createEl('div', { cls: 'template-list manage-list' });
+        const showCategories = this.view === 'category' && (groups.length > 1 || groups[0][0] !== '');
+
+        if (groups.length === 0) {
+            templateList.createEl('div', { text: 'Every template has been used at least once.', cls: 'template-item' });
+        }
+
+        groups.forEach(([category, templates]) => {
+            if (showCategories) {
+                templateList.createEl('div', { text: category || 'Uncategorized', cls: 'template-category' });
+            }
 
-        this.plugin.settings.templates.forEach((template, index) => {
-            const templateItem = templateList.createEl('div', { cls: 'template-item' });
+            templates.forEach(template => {
+                const templateItem = templateList.createEl('div', { cls: 'template-item', attr: { tabindex: '0' } });
+                templateItem.addEventListener('mouseenter', () => this.preview?.show(template));
+                templateItem.addEventListener('focusin', () => this.preview?.show(template));
 
-            // Template info (name, command, preview)
-            const infoEl = templateItem.createEl('div', { cls: 'template-info' });
+                const checkbox = templateItem.createEl('input', { type: 'checkbox', cls: 'template-select', attr: { 'aria-label': `Select ${template.name}` } });
+                checkbox.checked = this.selected.has(this.getSelectionKey(template));
+                checkbox.addEventListener('change', () => {
+                    if (checkbox.checked) {
+                        this.selected.add(this.getSelectionKey(template));
+                    } else {
+                        this.selected.delete(this.getSelectionKey(template));
+                    }
+                    this.renderBulkActions(visible);
+                });
 
-            infoEl.createEl('div', { text: template.name, cls: 'template-name template-name-bold' });
+                // Template info (name, command, usage)
+                const infoEl = templateItem.createEl('div', { cls: 'template-info' });
 
-            const commandInfo = template.name;
-            infoEl.createEl('div', { text: `Command: !!${commandInfo}`, cls: 'template-command template-command-muted' });
+                infoEl.createEl('div', { text: template.name, cls: 'template-name template-name-bold' });
 
-            // Preview of content
-            const previewText = template.content.length > 100
-                ? template.content.substring(0, 100) + '...'
-                : template.content;
-            infoEl.createEl('div', { text: previewText, cls: 'template-preview template-preview-text' });
+                const triggers = this.plugin.getTemplateTriggers(template);
+                const prefix = this.plugin.settings.triggerPrefix;
+                const commandInfo = triggers.length > 0 ? triggers.map(trigger => `${prefix}${trigger}`).join(', ') : 'none';
+                infoEl.createEl('div', { text: `Command: ${commandInfo}`, cls: 'template-command template-command-muted' });
 
-            // Template actions (edit, delete)
-            const actionsEl = templateItem.createEl('div', { cls: 'template-actions' });
+                infoEl.createEl('div', { text: this.describeUsage(template), cls: 'template-usage' });
 
-            // Edit button
-            const editBtn = actionsEl.createEl('button', { text: '✏️', cls: 'action-button' });
-            editBtn.addEventListener('click', () => {
-                new EditTemplateModal(this.app, this.plugin, template, index, () => {
-                    this.close();
-                    new ManageTemplatesModal(this.app, this.plugin).open();
-                }).open();
-            });
+                // Template actions (edit, delete)
+                const actionsEl = templateItem.createEl('div', { cls: 'template-actions' });
 
-            // Delete button
-            const deleteBtn = actionsEl.createEl('button', { text: '❌', cls: 'action-button' });
-            deleteBtn.addEventListener('click', () => {
-                new ConfirmModal(
-                    this.app,
-                    `Delete template "${template.name}"?`,
-                    async (confirmed) => {
-                        if (confirmed) {
-                            this.plugin.settings.templates.splice(index, 1);
-                            await this.plugin.saveSettings();
-                            new Notice(`Template "${template.name}" deleted`);
+                // Edit button
+                const editBtn = actionsEl.createEl('button', { text: '✏️', cls: 'action-button' });
+                editBtn.addEventListener('click', () => {
+                    new EditTemplateModal(this.app, this.plugin, template, () => {
+                        this.close();
+                        new ManageTemplatesModal(this.app, this.plugin, this.view).open();
+                    }).open();
+                });
+
+                // History button
+                if (this.plugin.getTemplateRevisions(template).length > 0) {
+                    const historyBtn = actionsEl.createEl('button', { text: '🕘', cls: 'action-button', attr: { 'aria-label': 'Version history' } });
+                    historyBtn.addEventListener('click', () => {
+                        new TemplateHistoryModal(this.app, this.plugin, template, () => {
                             this.close();
-                            new ManageTemplatesModal(this.app, this.plugin).open();
+                            new ManageTemplatesModal(this.app, this.plugin, this.view).open();
+                        }).open();
+                    });
+                }
+
+                // Delete button
+                const deleteBtn = actionsEl.createEl('button', { text: '❌', cls: 'action-button' });
+                deleteBtn.addEventListener('click', () => {
+                    new ConfirmModal(
+                        this.app,
+                        `Delete template "${template.name}"?`,
+                        async (confirmed) => {
+                            if (confirmed) {
+                                const changes = await this.plugin.deleteTemplates([template]);
+                                this.plugin.showUndoNotice(`Template "${template.name}" deleted`, changes, () => this.refreshIfOpen());
+                                this.refresh();
+                            }
                         }
-                    }
-                ).open();
+                    ).open();
+                });
             });
         });
 
+        this.preview?.unload();
+        this.preview = new TemplatePreview(this.plugin, contentEl);
+        this.preview.load();
+        this.preview.show(groups.length > 0 ? groups[0][1][0] : null);
+
         // Close button
         new Setting(contentEl)
             .addButton(button => {
@@ -817,28 +4164,193 @@ class ManageTemplatesModal extends Modal {
             });
     }
 
+    renderBulkActions(visible: Template[]) {
+        this.bulkActionsEl.empty();
+
+        const count = this.selected.size;
+        const allSelected = visible.length > 0 && visible.every(template => this.selected.has(this.getSelectionKey(template)));
+
+        new Setting(this.bulkActionsEl)
+            .setName(count > 0 ? `${count} selected` : 'Select templates to change several at once')
+            .addButton(button => {
+                button.setButtonText(allSelected ? 'Select none' : 'Select all')
+                    .onClick(() => {
+                        visible.forEach(template => {
+                            const key = this.getSelectionKey(template);
+                            if (allSelected) {
+                                this.selected.delete(key);
+                            } else {
+                                this.selected.add(key);
+                            }
+                        });
+                        this.refresh();
+                    });
+            })
+            .addButton(button => {
+                button.setButtonText('Move to category')
+                    .setDisabled(count === 0)
+                    .onClick(() => this.moveSelected());
+            })
+            .addButton(button => {
+                button.setButtonText('Add tags')
+                    .setDisabled(count === 0)
+                    .onClick(() => this.tagSelected());
+            })
+            .addButton(button => {
+                button.setButtonText('Delete')
+                    .setWarning()
+                    .setDisabled(count === 0)
+                    .onClick(() => this.deleteSelected());
+            });
+    }
+
+    getSelectionKey(template: Template): string {
+        return template.path || this.plugin.getTemplateKey(template);
+    }
+
+    getSelectedTemplates(): Template[] {
+        return this.plugin.settings.templates.filter(template => this.selected.has(this.getSelectionKey(template)));
+    }
+
+    moveSelected() {
+        const templates = this.getSelectedTemplates();
+        new PromptModal(
+            this.app,
+            'Move to Category',
+            'Category',
+            'Pick an existing category or type a new one. Use "/" for nested categories; leave empty to move the templates out of their categories.',
+            async (value) => {
+                const category = this.plugin.normalizeCategory(value);
+                const changes = await this.plugin.updateTemplates(templates, template =>
+                    this.plugin.normalizeCategory(template.category || '') === category ? null : { ...template, category }
+                );
+                this.finishBulkAction(changes, `moved to ${category || 'Uncategorized'}`);
+            },
+            inputEl => this.plugin.attachCategorySuggestions(inputEl)
+        ).open();
+    }
+
+    tagSelected() {
+        const templates = this.getSelectedTemplates();
+        new PromptModal(
+            this.app,
+            'Add Tags',
+            'Tags',
+            'Tags to add to the selected templates, separated by commas. Tags help find templates in autocomplete and the Insert dialog.',
+            async (value) => {
+                const tags = this.plugin.parseList(value).map(tag => tag.replace(/^#/, '')).filter(Boolean);
+                if (tags.length === 0) {
+                    return;
+                }
+
+                const changes = await this.plugin.updateTemplates(templates, template => {
+                    const current = this.plugin.parseList(template.frontmatter?.tags);
+                    const added = tags.filter(tag => !current.some(existing => existing.replace(/^#/, '') === tag));
+                    if (added.length === 0) {
+                        return null;
+                    }
+                    return { ...template, frontmatter: { ...template.frontmatter, tags: [...current, ...added] } };
+                });
+                this.finishBulkAction(changes, 'tagged');
+            }
+        ).open();
+    }
+
+    deleteSelected() {
+        const templates = this.getSelectedTemplates();
+        new ConfirmModal(
+            this.app,
+            `Delete ${templates.length} template${templates.length === 1 ? '' : 's'}?`,
+            async (confirmed) => {
+                if (confirmed) {
+                    const changes = await this.plugin.deleteTemplates(templates);
+                    this.finishBulkAction(changes, 'deleted');
+                }
+            }
+        ).open();
+    }
+
+    // Clears the selection and offers to undo the whole bulk action at once
+    finishBulkAction(changes: TemplateChange[], action: string) {
+        this.selected.clear();
+        if (changes.length > 0) {
+            this.plugin.showUndoNotice(`${changes.length} template${changes.length === 1 ? '' : 's'} ${action}`, changes, () => this.refreshIfOpen());
+        } else {
+            new Notice('No templates were changed');
+        }
+        this.refresh();
+    }
+
+    refresh() {
+        this.contentEl.empty();
+        this.onOpen();
+    }
+
+    refreshIfOpen() {
+        if (this.containerEl.isConnected) {
+            this.refresh();
+        }
+    }
+
+    getTemplateGroups(): [string, Template[]][] {
+        const templates = this.plugin.settings.templates.filter(Boolean);
+
+        if (this.view === 'most-used') {
+            const sorted = templates.slice().sort((a, b) => {
+                const usageA = this.plugin.getTemplateUsage(a);
+                const usageB = this.plugin.getTemplateUsage(b);
+                return usageB.count - usageA.count || usageB.lastUsed - usageA.lastUsed;
+            });
+            return [['', sorted]];
+        }
+
+        if (this.view === 'never-used') {
+            const unused = templates.filter(template => this.plugin.getTemplateUsage(template).count === 0);
+            return unused.length > 0 ? [['', unused]] : [];
+        }
+
+        return this.plugin.groupTemplatesByCategory(templates);
+    }
+
+    describeUsage(template: Template): string {
+        const usage = this.plugin.getTemplateUsage(template);
+        if (usage.count === 0) {
+            return 'Never used';
+        }
+
+        const times = usage.count === 1 ? 'once' : `${usage.count} times`;
+        const note = usage.lastNote ? ` in ${usage.lastNote}` : '';
+        return `Used ${times}, last ${moment(usage.lastUsed).fromNow()}${note}`;
+    }
+
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
 
-        this.plugin.clearAllTooltips();
+        this.preview?.unload();
+        this.preview = null;
     }
 }
 
 class EditTemplateModal extends Modal {
     plugin: QuickTemplatesPlugin;
     template: Template;
-    templateIndex: number;
     onSave: () => void;
     nameInput: HTMLInputElement;
+    categoryInput: HTMLInputElement;
+    aliasesInput: HTMLInputElement;
+    useNameAsCommand: boolean;
+    placement: TemplatePlacementMode;
+    headingInput: HTMLInputElement;
     contentTextarea: HTMLTextAreaElement;
 
-    constructor(app: App, plugin: QuickTemplatesPlugin, template: Template, templateIndex: number, onSave: () => void) {
+    constructor(app: App, plugin: QuickTemplatesPlugin, template: Template, onSave: () => void) {
         super(app);
         this.plugin = plugin;
         this.template = template;
-        this.templateIndex = templateIndex;
         this.onSave = onSave;
+        this.useNameAsCommand = template.useNameAsCommand;
+        this.placement = template.placement || 'selection';
     }
 
     onOpen() {
@@ -857,6 +4369,65 @@ class EditTemplateModal extends Modal {
                     });
             });
 
+        // Category
+        new Setting(contentEl)
+            .setName('Category')
+            .setDesc('Changing the category moves the template file into the matching subfolder.')
+            .addText(text => {
+                this.categoryInput = text.inputEl;
+                text.setPlaceholder('Category')
+                    .setValue(this.template.category || '');
+                this.plugin.attachCategorySuggestions(text.inputEl);
+            });
+
+        // Aliases
+        new Setting(contentEl)
+            .setName('Aliases')
+            .setDesc(`Short triggers for autocomplete, separated by commas (e.g. "mtg, meeting" for ${this.plugin.settings.triggerPrefix}mtg and ${this.plugin.settings.triggerPrefix}meeting).`)
+            .addText(text => {
+                this.aliasesInput = text.inputEl;
+                text.setPlaceholder('mtg, meeting')
+                    .setValue((this.template.aliases || []).join(', '));
+            });
+
+        // Use name as command
+        new Setting(contentEl)
+            .setName('Trigger with template name')
+            .setDesc(`Also insert this template by typing ${this.plugin.settings.triggerPrefix} followed by its full name.`)
+            .addToggle(toggle => {
+                toggle.setValue(this.useNameAsCommand)
+                    .onChange(value => {
+                        this.useNameAsCommand = value;
+                    });
+            });
+
+        // Placement
+        const headingSetting = new Setting(contentEl)
+            .setName('Heading')
+            .setDesc('Inserted at the end of this section. Write "## Log" to choose the level used if the heading has to be created.')
+            .addText(text => {
+                this.headingInput = text.inputEl;
+                text.setPlaceholder('## Log')
+                    .setValue(this.template.heading || '');
+            });
+
+        new Setting(contentEl)
+            .setName('Insert at')
+            .setDesc('Where the template goes when it is inserted into a note.')
+            .addDropdown(dropdown => {
+                (Object.keys(PLACEMENT_LABELS) as TemplatePlacementMode[]).forEach(mode => {
+                    dropdown.addOption(mode, PLACEMENT_LABELS[mode]);
+                });
+                dropdown.setValue(this.placement)
+                    .onChange(value => {
+                        this.placement = value as TemplatePlacementMode;
+                        headingSetting.settingEl.toggle(this.placement === 'heading');
+                    });
+            });
+
+        contentEl.appendChild(headingSetting.settingEl);
+        headingSetting.settingEl.toggle(this.placement === 'heading');
+
         // Template content
         new Setting(contentEl)
             .setName('Template content')
@@ -872,13 +4443,6 @@ class EditTemplateModal extends Modal {
         });
         this.contentTextarea.value = this.template.content;
 
-        setTimeout(() => {
-            const existingCustomCommandSetting = contentEl.querySelector('.custom-command-setting');
-            if (existingCustomCommandSetting) {
-                existingCustomCommandSetting.remove();
-            }
-        }, 0);
-
         // Save and Cancel buttons
         new Setting(contentEl)
             .addButton(button => {
@@ -891,7 +4455,7 @@ class EditTemplateModal extends Modal {
                             return;
                         }
 
-                        await this.saveTemplateToSettings(templateName, '', true);
+                        await this.saveTemplateToSettings(templateName, this.aliasesInput.value, this.useNameAsCommand);
                     });
             })
             .addButton(button => {
@@ -905,34 +4469,161 @@ class EditTemplateModal extends Modal {
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
-
-        this.plugin.clearAllTooltips();
     }
 
     async saveTemplateToSettings(name: string, cmd: string, useNameAsCmd: boolean) {
-        const existingTemplateIndex = this.plugin.settings.templates.findIndex(
-            (t: Template, idx: number) => t.name === name && idx !== this.templateIndex
-        );
+        const current = this.plugin.findCurrentTemplate(this.template) || this.template;
+        const category = this.categoryInput.value;
+        const existingTemplate = this.plugin.findTemplateByName(name, category);
+
+        if (existingTemplate && existingTemplate !== current) {
+            new Notice(`Template "${this.plugin.getTemplateKey(existingTemplate)}" already exists`);
+            return;
+        }
 
-        if (existingTemplateIndex >= 0) {
-            new Notice(`Template with name "${name}" already exists`);
+        const aliases = this.plugin.parseList(cmd);
+        const triggerError = this.plugin.validateTemplateTriggers(name, aliases, useNameAsCmd, current, category);
+        if (triggerError) {
+            new Notice(triggerError);
             return;
         }
 
         // Update template
-        this.plugin.settings.templates[this.templateIndex] = {
+        const saved = await this.plugin.saveTemplate({
+            ...current,
             name: name,
             content: this.contentTextarea.value,
-            useNameAsCommand: true,
-        };
+            useNameAsCommand: useNameAsCmd,
+            aliases: aliases,
+            category: this.categoryInput.value,
+            placement: this.placement === 'selection' ? undefined : this.placement,
+            heading: this.headingInput.value.trim() || undefined,
+        }, current);
+
+        if (!saved) {
+            return;
+        }
 
-        await this.plugin.saveSettings();
         new Notice(`Template "${name}" updated`);
         this.close();
         this.onSave();
     }
 }
 
+class TemplateHistoryModal extends Modal {
+    plugin: QuickTemplatesPlugin;
+    template: Template;
+    onRestore: () => void;
+    selected: number = 0;
+    compareWith: number = -1;
+    currentMarkdown: string = '';
+
+    constructor(app: App, plugin: QuickTemplatesPlugin, template: Template, onRestore: () => void) {
+        super(app);
+        this.plugin = plugin;
+        this.template = template;
+        this.onRestore = onRestore;
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: `History of "${this.template.name}"` });
+
+        const revisions = this.plugin.getTemplateRevisions(this.template);
+        if (revisions.length === 0) {
+            contentEl.createEl('p', { text: 'No earlier versions yet. A version is kept each time the template is saved.' });
+            return;
+        }
+
+        // The current version is compared as it is on disk, including edits made to the file outside this plugin
+        this.template = this.plugin.findCurrentTemplate(this.template) || this.template;
+        try {
+            this.currentMarkdown = await this.plugin.readTemplateMarkdown(this.template);
+        } catch (error) {
+            console.error(`Failed to read template file "${this.template.path}":`, error);
+            new Notice(`Could not read "${this.template.name}" from disk; comparing with the last loaded version.`);
+            this.currentMarkdown = this.plugin.serializeTemplate(this.template);
+        }
+
+        const describe = (revision: TemplateRevision) =>
+            `${moment(revision.savedAt).format('YYYY-MM-DD HH:mm')} (${moment(revision.savedAt).fromNow()})`;
+
+        new Setting(contentEl)
+            .setName('Version')
+            .setDesc('The template as it was before the save at this time.')
+            .addDropdown(dropdown => {
+                revisions.forEach((revision, index) => dropdown.addOption(String(index), describe(revision)));
+                dropdown.setValue(String(this.selected))
+                    .onChange(value => {
+                        this.selected = Number(value);
+                        this.renderDiff(diffEl);
+                    });
+            });
+
+        new Setting(contentEl)
+            .setName('Compare with')
+            .addDropdown(dropdown => {
+                dropdown.addOption('-1', 'Current version');
+                revisions.forEach((revision, index) => dropdown.addOption(String(index), describe(revision)));
+                dropdown.setValue(String(this.compareWith))
+                    .onChange(value => {
+                        this.compareWith = Number(value);
+                        this.renderDiff(diffEl);
+                    });
+            });
+
+        const diffEl = contentEl.createEl('div', { cls: 'template-diff' });
+        this.renderDiff(diffEl);
+
+        new Setting(contentEl)
+            .addButton(button => {
+                button.setButtonText('Restore this version')
+                    .setCta()
+                    .onClick(async () => {
+                        const revision = revisions[this.selected];
+                        if (await this.plugin.restoreTemplateRevision(this.template, revision)) {
+                            new Notice(`Restored "${this.template.name}" to the version from ${describe(revision)}`);
+                            this.close();
+                            this.onRestore();
+                        }
+                    });
+            })
+            .addButton(button => {
+                button.setButtonText('Close')
+                    .onClick(() => {
+                        this.close();
+                    });
+            });
+    }
+
+    renderDiff(diffEl: HTMLElement) {
+        diffEl.empty();
+
+        const revisions = this.plugin.getTemplateRevisions(this.template);
+        const before = revisions[this.selected].markdown;
+        const after = this.compareWith < 0 ? this.currentMarkdown : revisions[this.compareWith].markdown;
+
+        const lines = diffLines(before.replace(/\r\n?/g, '\n'), after.replace(/\r\n?/g, '\n'));
+        if (lines.every(line => line.type === 'same')) {
+            diffEl.createEl('div', { text: 'No differences.', cls: 'template-diff-empty' });
+            return;
+        }
+
+        const markers = { same: ' ', added: '+', removed: '−' };
+        lines.forEach(line => {
+            diffEl.createEl('div', {
+                text: `${markers[line.type]} ${line.text}`,
+                cls: `template-diff-line template-diff-${line.type}`
+            });
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
 class ConfirmModal extends Modal {
     message: string;
     onConfirm: (confirmed: boolean) => void;
@@ -972,7 +4663,151 @@ class ConfirmModal extends Modal {
     }
 }
 
-class TemplateSuggest extends EditorSuggest<Template> {
+class PromptModal extends Modal {
+    title: string;
+    label: string;
+    description: string;
+    onSubmit: (value: string) => void;
+    setupInput?: (inputEl: HTMLInputElement) => void;
+
+    constructor(app: App, title: string, label: string, description: string, onSubmit: (value: string) => void, setupInput?: (inputEl: HTMLInputElement) => void) {
+        super(app);
+        this.title = title;
+        this.label = label;
+        this.description = description;
+        this.onSubmit = onSubmit;
+        this.setupInput = setupInput;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: this.title });
+
+        let inputEl: HTMLInputElement;
+        const submit = () => {
+            this.onSubmit(inputEl.value.trim());
+            this.close();
+        };
+
+        new Setting(contentEl)
+            .setName(this.label)
+            .setDesc(this.description)
+            .addText(text => {
+                inputEl = text.inputEl;
+                this.setupInput?.(text.inputEl);
+                text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+                    if (event.key === 'Enter' && !event.isComposing) {
+                        event.preventDefault();
+                        submit();
+                    }
+                });
+            });
+
+        new Setting(contentEl)
+            .addButton(button => {
+                button.setButtonText('OK')
+                    .setCta()
+                    .onClick(submit);
+            })
+            .addButton(button => {
+                button.setButtonText('Cancel')
+                    .onClick(() => {
+                        this.close();
+                    });
+            });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+class TemplateVariablesModal extends Modal {
+    variables: TemplateVariable[];
+    onSubmit: (values: Record<string, string> | null) => void;
+    inputs: Map<string, HTMLInputElement> = new Map();
+    submitted: boolean = false;
+
+    constructor(app: App, variables: TemplateVariable[], onSubmit: (values: Record<string, string> | null) => void) {
+        super(app);
+        this.variables = variables;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Fill in Template' });
+
+        this.variables.forEach((variable, index) => {
+            const setting = new Setting(contentEl)
+                .setName(variable.name);
+
+            if (variable.isList) {
+                setting.setDesc('Separate multiple values with commas');
+            }
+
+            setting
+                .addText(text => {
+                    this.inputs.set(variable.name, text.inputEl);
+                    text.setPlaceholder(variable.defaultValue || variable.name)
+                        .setValue(variable.defaultValue);
+
+                    text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+                        if (event.key === 'Enter' && !event.isComposing) {
+                            event.preventDefault();
+                            this.submit();
+                        }
+                    });
+
+                    if (index === 0) {
+                        setTimeout(() => {
+                            text.inputEl.focus();
+                            text.inputEl.select();
+                        }, 0);
+                    }
+                });
+        });
+
+        // Insert and Cancel buttons
+        new Setting(contentEl)
+            .addButton(button => {
+                button.setButtonText('Insert')
+                    .setCta()
+                    .onClick(() => {
+                        this.submit();
+                    });
+            })
+            .addButton(button => {
+                button.setButtonText('Cancel')
+                    .onClick(() => {
+                        this.close();
+                    });
+            });
+    }
+
+    submit() {
+        const values: Record<string, string> = {};
+        this.inputs.forEach((input, name) => {
+            values[name] = input.value;
+        });
+
+        this.submitted = true;
+        this.onSubmit(values);
+        this.close();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (!this.submitted) {
+            this.onSubmit(null);
+        }
+    }
+}
+
+class TemplateSuggest extends EditorSuggest<TemplateMatch> {
     plugin: QuickTemplatesPlugin;
     isInserting: boolean = false;
 
@@ -992,64 +4827,40 @@ class TemplateSuggest extends EditorSuggest<Template> {
             const line = editor.getLine(cursor.line);
             if (!line) return null;
 
-            const subString = line.substring(0, cursor.ch);
-
-            const match = subString.match(/!!([^\s]*)$/u);
-            if (!match) return null;
+            const trigger = this.plugin.getTriggerContext(editor, cursor);
+            if (!trigger) return null;
 
             return {
-                start: {
-                    line: cursor.line,
-                    ch: subString.lastIndexOf('!!'),
-                },
+                start: trigger.start,
                 end: cursor,
-                query: match[1],
+                query: trigger.query,
             };
         } catch (error) {
             return null;
         }
     }
 
-    getSuggestions(context: EditorSuggestContext): Template[] {
+    getSuggestions(context: EditorSuggestContext): TemplateMatch[] {
         if (!context) return [];
 
         try {
-            const query = context.query.toLowerCase();
-
-            if (!query) {
-                return this.plugin.settings.templates || [];
-            }
-
-            return (this.plugin.settings.templates || []).filter(template => {
-                if (!template) return false;
-
-                const nameMatch = template.name.toLowerCase().includes(query);
-                return nameMatch;
-            });
+            return this.plugin.searchTemplates(context.query, true);
         } catch (error) {
             return [];
         }
     }
 
-    renderSuggestion(template: Template, el: HTMLElement): void {
-        if (!template || !el) return;
+    renderSuggestion(match: TemplateMatch, el: HTMLElement): void {
+        if (!match || !el) return;
 
         try {
-            el.createEl('div', { text: template.name, cls: 'suggestion-title' });
-
-            const commandInfo = template.name;
-            el.createEl('div', { text: `!!${commandInfo}`, cls: 'suggestion-note' });
-
-            const previewText = template.content.length > 100
-                ? template.content.substring(0, 100) + '...'
-                : template.content;
-            el.createEl('div', { text: previewText, cls: 'suggestion-content' });
+            this.plugin.renderTemplateMatch(match, el);
         } catch (error) {
         }
     }
 
-    selectSuggestion(template: Template, event: MouseEvent | KeyboardEvent): void {
-        if (!template) return;
+    selectSuggestion(match: TemplateMatch, event: MouseEvent | KeyboardEvent): void {
+        if (!match) return;
 
         try {
             if (!this.context) return;
@@ -1064,13 +4875,13 @@ class TemplateSuggest extends EditorSuggest<Template> {
 
             this.isInserting = true;
 
-            editor.replaceRange(template.content, startPos, endPos);
-
-            setTimeout(() => {
-                this.isInserting = false;
-            }, 100);
-
             this.close();
+
+            this.plugin.insertTemplate(editor, match.item, startPos, endPos).finally(() => {
+                setTimeout(() => {
+                    this.isInserting = false;
+                }, 100);
+            });
         } catch (error) {
             this.isInserting = false;
         }
@@ -1106,6 +4917,11 @@ class QuickTemplatesSettingTab extends PluginSettingTab {
                             await this.plugin.saveSettings();
                         }
                     });
+
+                text.inputEl.addEventListener('change', async () => {
+                    await this.plugin.loadTemplatesFromFiles();
+                    this.plugin.registerTemplateCommands();
+                });
             })
             .addButton(button => {
                 button.setButtonText('Open Folder')
@@ -1138,6 +4954,225 @@ class QuickTemplatesSettingTab extends PluginSettingTab {
             text: `${templatesPath} (relative to your vault root)`
         });
 
+        // Unmanaged files
+        const unmanaged = this.plugin.getUnmanagedTemplates();
+        if (unmanaged.length > 0) {
+            new Setting(containerEl)
+                .setName('Unmanaged files')
+                .setDesc(`${unmanaged.length} file${unmanaged.length === 1 ? ' has' : 's have'} no template settings in ${unmanaged.length === 1 ? 'its' : 'their'} frontmatter. ${unmanaged.length === 1 ? 'It is' : 'They are'} used as templates named after the file and never changed by the plugin. Adopting a file adds the template settings, so you can give it aliases, a category and other options.`)
+                .addButton(button => {
+                    button.setButtonText('Preview changes')
+                        .onClick(() => {
+                            new AdoptionReportModal(this.app, this.plugin, unmanaged, () => this.display()).open();
+                        });
+                })
+                .addButton(button => {
+                    button.setButtonText('Adopt all')
+                        .onClick(async () => {
+                            const adopted = await this.plugin.adoptTemplates(unmanaged);
+                            new Notice(`Adopted ${adopted} file${adopted === 1 ? '' : 's'}`);
+                            this.display();
+                        });
+                });
+
+            unmanaged.forEach(template => {
+                new Setting(containerEl)
+                    .setName(template.path || template.name)
+                    .setClass('template-unmanaged-file')
+                    .addButton(button => {
+                        button.setButtonText('Adopt')
+                            .onClick(async () => {
+                                if (await this.plugin.adoptTemplates([template])) {
+                                    new Notice(`Adopted ${template.path}`);
+                                }
+                                this.display();
+                            });
+                    });
+            });
+        }
+
+        // Autocomplete settings
+        containerEl.createEl('h3', { text: 'Autocomplete Settings' });
+
+        new Setting(containerEl)
+            .setName('Trigger prefix')
+            .setDesc('Characters that open template autocomplete, for example !!, ;; or ::')
+            .addText(text => {
+                text.setPlaceholder(DEFAULT_SETTINGS.triggerPrefix)
+                    .setValue(this.plugin.settings.triggerPrefix)
+                    .onChange(async (value) => {
+                        const prefix = value.trim();
+                        if (!prefix || /\s/.test(prefix)) {
+                            text.inputEl.addClass('is-invalid');
+                            return;
+                        }
+
+                        text.inputEl.removeClass('is-invalid');
+                        this.plugin.settings.triggerPrefix = prefix;
+                        await this.plugin.saveSettingsData();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Ignore triggers in code and frontmatter')
+            .setDesc('Do not open autocomplete inside code blocks, inline code or the note\'s frontmatter.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.ignoreTriggersInCode)
+                    .onChange(async (value) => {
+                        this.plugin.settings.ignoreTriggersInCode = value;
+                        await this.plugin.saveSettingsData();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Auto-expand aliases')
+            .setDesc('Insert a template as soon as you type the trigger prefix and one of its aliases followed by Space or Tab, without picking it from the list.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.autoExpand)
+                    .onChange(async (value) => {
+                        this.plugin.settings.autoExpand = value;
+                        await this.plugin.saveSettingsData();
+                    });
+            });
+
+        // Insertion settings
+        containerEl.createEl('h3', { text: 'Insertion Settings' });
+
+        new Setting(containerEl)
+            .setName('Template properties')
+            .setDesc('When a template starts with a properties block, its properties are added to the note\'s frontmatter. Choose what happens when the note already has a property of the same name.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('keep', 'Keep the note\'s value')
+                    .addOption('overwrite', 'Use the template\'s value')
+                    .addOption('append', 'Combine both into a list')
+                    .setValue(this.plugin.settings.frontmatterMergeStrategy)
+                    .onChange(async (value) => {
+                        this.plugin.settings.frontmatterMergeStrategy = value as FrontmatterMergeStrategy;
+                        await this.plugin.saveSettingsData();
+                    });
+            });
+
+        // Folder templates
+        containerEl.createEl('h3', { text: 'Folder Templates' });
+
+        containerEl.createEl('p', {
+            text: 'New empty notes created in a matching folder are filled with the chosen template. Use a folder path such as Meetings, or a glob such as Projects/*/Meetings or **/Daily. Rules are checked from top to bottom and the first match wins.',
+            cls: 'setting-item-description'
+        });
+
+        const rules = this.plugin.settings.folderTemplates;
+
+        rules.forEach((rule, index) => {
+            new Setting(containerEl)
+                .setName(`Rule ${index + 1}`)
+                .addText(text => {
+                    text.setPlaceholder('Folder or glob')
+                        .setValue(rule.pattern)
+                        .onChange(async (value) => {
+                            rule.pattern = value;
+                            await this.plugin.saveSettingsData();
+                        });
+                })
+                .addDropdown(dropdown => {
+                    this.addTemplateOptions(dropdown, rule.template, 'Choose template');
+                    dropdown.setValue(rule.template)
+                        .onChange(async (value) => {
+                            rule.template = value;
+                            await this.plugin.saveSettingsData();
+                        });
+                })
+                .addExtraButton(button => {
+                    button.setIcon('up-chevron-glyph')
+                        .setTooltip('Move up')
+                        .setDisabled(index === 0)
+                        .onClick(async () => {
+                            rules.splice(index - 1, 0, rules.splice(index, 1)[0]);
+                            await this.plugin.saveSettingsData();
+                            this.display();
+                        });
+                })
+                .addExtraButton(button => {
+                    button.setIcon('down-chevron-glyph')
+                        .setTooltip('Move down')
+                        .setDisabled(index === rules.length - 1)
+                        .onClick(async () => {
+                            rules.splice(index + 1, 0, rules.splice(index, 1)[0]);
+                            await this.plugin.saveSettingsData();
+                            this.display();
+                        });
+                })
+                .addExtraButton(button => {
+                    button.setIcon('cross')
+                        .setTooltip('Delete rule')
+                        .onClick(async () => {
+                            rules.splice(index, 1);
+                            await this.plugin.saveSettingsData();
+                            this.display();
+                        });
+                });
+        });
+
+        new Setting(containerEl)
+            .addButton(button => {
+                button.setButtonText('Add folder rule')
+                    .onClick(async () => {
+                        rules.push({ pattern: '', template: '' });
+                        await this.plugin.saveSettingsData();
+                        this.display();
+                    });
+            });
+
+        // Periodic notes
+        containerEl.createEl('h3', { text: 'Periodic Notes' });
+
+        containerEl.createEl('p', {
+            text: 'Templates for the "Open today\'s daily note", "Open this week\'s weekly note" and "Open this month\'s monthly note" commands. Date tokens in these templates use the note\'s date instead of today.',
+            cls: 'setting-item-description'
+        });
+
+        PERIODIC_NOTE_TYPES.forEach(type => {
+            const config = this.plugin.settings.periodicNotes[type];
+            const defaults = DEFAULT_SETTINGS.periodicNotes[type];
+
+            containerEl.createEl('h4', { text: `${type.charAt(0).toUpperCase()}${type.slice(1)} notes` });
+
+            new Setting(containerEl)
+                .setName('Folder')
+                .setDesc(`Where new ${type} notes are created. Leave empty for the vault root.`)
+                .addText(text => {
+                    text.setPlaceholder('Example: Journal')
+                        .setValue(config.folder)
+                        .onChange(async (value) => {
+                            config.folder = value.trim();
+                            await this.plugin.saveSettingsData();
+                        });
+                });
+
+            const formatSetting = new Setting(containerEl)
+                .setName('File name format')
+                .addText(text => {
+                    text.setPlaceholder(defaults.format)
+                        .setValue(config.format)
+                        .onChange(async (value) => {
+                            config.format = value.trim();
+                            formatSetting.setDesc(this.describePeriodicNoteFormat(type));
+                            await this.plugin.saveSettingsData();
+                        });
+                });
+            formatSetting.setDesc(this.describePeriodicNoteFormat(type));
+
+            new Setting(containerEl)
+                .setName('Template')
+                .addDropdown(dropdown => {
+                    this.addTemplateOptions(dropdown, config.template, 'No template');
+                    dropdown.setValue(config.template)
+                        .onChange(async (value) => {
+                            config.template = value;
+                            await this.plugin.saveSettingsData();
+                        });
+                });
+        });
+
         containerEl.createEl('p', {
             text: 'Use the "Manage templates" command to create, edit, and delete templates.',
             cls: 'usage-hint'
@@ -1203,7 +5238,7 @@ class QuickTemplatesSettingTab extends PluginSettingTab {
         });
 
         insertSteps.createEl('li', {
-            text: 'Type !! followed by your template name (autocomplete will appear)'
+            text: `Type ${this.plugin.settings.triggerPrefix} followed by your template name (autocomplete will appear)`
         });
 
         // Card 3: Manage templates
@@ -1251,4 +5286,23 @@ class QuickTemplatesSettingTab extends PluginSettingTab {
             });
         }
     }
+
+    addTemplateOptions(dropdown: DropdownComponent, selected: string, emptyLabel: string) {
+        dropdown.addOption('', emptyLabel);
+
+        const templates = this.plugin.settings.templates.filter(Boolean);
+        templates.forEach(template => {
+            const key = this.plugin.getTemplateKey(template);
+            dropdown.addOption(key, key);
+        });
+
+        if (selected && !templates.some(template => this.plugin.getTemplateKey(template) === selected)) {
+            dropdown.addOption(selected, `${selected} (missing)`);
+        }
+    }
+
+    describePeriodicNoteFormat(type: PeriodicNoteType): string {
+        const path = this.plugin.getPeriodicNotePath(type, moment().startOf(PERIODIC_NOTE_PERIODS[type].unit));
+        return `Moment.js format; use / for subfolders. The current ${type} note is ${path}`;
+    }
 } 
\ No newline at end of file